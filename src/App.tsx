@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   Palette, 
   Heart, 
@@ -10,112 +10,251 @@ import {
   Grid,
   List,
   Settings,
-  Trash2
+  Trash2,
+  Eye,
+  GitMerge,
+  Undo2,
+  Redo2,
+  AlertTriangle,
+  X
 } from 'lucide-react';
-import { Color, ColorPalette } from './types/color';
+import {
+  Color,
+  ColorPalette,
+  ColorCombination,
+  ColorAdjustment,
+  ColorFilters,
+  ColorSortKey,
+  ExportFormat,
+  Gradient,
+  ImportPreview,
+  ItemDetails,
+  SharedPalette,
+  LibraryData,
+  ThemeMapping,
+  VisionMode
+} from './types/color';
 import { ColorCard } from './components/ColorCard';
 import { ColorPicker } from './components/ColorPicker';
 import { ColorGenerator } from './components/ColorGenerator';
-import { useLocalStorage } from './hooks/useLocalStorage';
-import { hexToRgb, rgbToHsl } from './utils/colorUtils';
+import { PaletteManager } from './components/PaletteManager';
+import { ColorCombiner } from './components/ColorCombiner';
+import { ExportPanel } from './components/ExportPanel';
+import { ImportDialog } from './components/ImportDialog';
+import { AccessibilityPanel } from './components/AccessibilityPanel';
+import { SimilarColorsPanel } from './components/SimilarColorsPanel';
+import { Toast } from './components/Toast';
+import { SharedPaletteDialog } from './components/SharedPaletteDialog';
+import { ColorFilterPanel } from './components/ColorFilterPanel';
+import { ThemeManager } from './components/ThemeManager';
+import { UiPreviewPanel } from './components/UiPreviewPanel';
+import { GradientBuilder } from './components/GradientBuilder';
+import { BulkActionBar } from './components/BulkActionBar';
+import { useLibraryStorage } from './hooks/useLibraryStorage';
+import { useLibraryHistory } from './hooks/useLibraryHistory';
+import { createColor, normalizeHex, adjustColor, toHex8, getColorHex8 } from './utils/colorUtils';
+import { suggestColorName } from './utils/colorNames';
+import {
+  defaultColorFilters,
+  colorSortOptions,
+  countActiveFilters,
+  filterColors,
+  sortColors,
+  getAllTags,
+  getNearColor
+} from './utils/filterUtils';
+import { updateTagsOf } from './utils/tagUtils';
+import { readSharedPaletteFromHash, clearShareHash } from './utils/shareUtils';
+import { findColorByHex, withoutDuplicateHexes, mergeColors } from './utils/duplicateUtils';
+import {
+  createPalette,
+  duplicatePalette,
+  addColorsToPalette,
+  removeColorFromPalette,
+  moveItem
+} from './utils/paletteUtils';
+import { downloadFile, exportColorsAs, exportFormats } from './utils/exportUtils';
+import { createExportData, parseImportFile } from './utils/libraryData';
+import { parseSwatchFile, SWATCH_FILE_EXTENSIONS } from './utils/swatchFormats';
+import { visionModes } from './utils/visionUtils';
 
 function App() {
-  const [colors, setColors] = useLocalStorage<Color[]>('color-palette-colors', []);
-  const [palettes, setPalettes] = useLocalStorage<ColorPalette[]>('color-palette-palettes', []);
+  const storage = useLibraryStorage();
+  const {
+    colors,
+    palettes,
+    combinations: combinationHistory,
+    setColors: setStoredColors,
+    setPalettes: setStoredPalettes,
+    themes,
+    setCombinations: setStoredCombinations,
+    setThemes: setStoredThemes,
+    gradients,
+    setGradients: setStoredGradients
+  } = storage;
   const [searchTerm, setSearchTerm] = useState('');
   const [filterFavorites, setFilterFavorites] = useState(false);
+  const [colorFilters, setColorFilters] = useState<ColorFilters>(defaultColorFilters);
+  const [sortBy, setSortBy] = useState<ColorSortKey>('date');
+  const [showFilters, setShowFilters] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [visionMode, setVisionMode] = useState<VisionMode>('normal');
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [showSimilar, setShowSimilar] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Last color clicked without shift; shift-clicks select the range from here
+  const selectionAnchor = useRef<string | null>(null);
+  // `version` is the history version right after the change the toast announces
+  const [toast, setToast] = useState<{ id: number; message: string; version: number } | null>(null);
+  // undefined: no share link open; null: the link could not be decoded
+  const [sharedPalette, setSharedPalette] = useState<SharedPalette | null | undefined>(
+    () => readSharedPaletteFromHash(window.location.hash)
+  );
   const [newColorValue, setNewColorValue] = useState('#6366f1');
+  const [newColorAlpha, setNewColorAlpha] = useState(1);
   const [newColorName, setNewColorName] = useState('');
-  const [activeTab, setActiveTab] = useState<'colors' | 'generator' | 'palettes'>('colors');
-
-  // Estados y lógica para la combinación de colores
-  const [color1, setColor1] = useState('#6366f1');
-  const [color2, setColor2] = useState('#ff6b9d');
-  const [combinedColor, setCombinedColor] = useState<string>('');
-  const [combinationHistory, setCombinationHistory] = useState<{color1: string, color2: string, result: string, name: string}[]>([]);
-  const [editingIdx, setEditingIdx] = useState<number|null>(null);
-  const [editingName, setEditingName] = useState('');
-
-  function handleCombineColors() {
-    function hexToRgbObj(hex: string) {
-      hex = hex.replace('#', '');
-      const bigint = parseInt(hex, 16);
-      return {
-        r: (bigint >> 16) & 255,
-        g: (bigint >> 8) & 255,
-        b: bigint & 255
-      };
-    }
-    function rgbToHex(r: number, g: number, b: number) {
-      return (
-        '#' +
-        [r, g, b]
-          .map(x => x.toString(16).padStart(2, '0'))
-          .join('')
-      );
-    }
-    const rgb1 = hexToRgbObj(color1);
-    const rgb2 = hexToRgbObj(color2);
-    // Combina promediando los componentes
-    const r = Math.round((rgb1.r + rgb2.r) / 2);
-    const g = Math.round((rgb1.g + rgb2.g) / 2);
-    const b = Math.round((rgb1.b + rgb2.b) / 2);
-    const resultHex = rgbToHex(r, g, b);
-    setCombinedColor(resultHex);
-    setCombinationHistory(prev => [
-      { color1, color2, result: resultHex, name: '' },
-      ...prev,
-    ]);
-  }
+  // Palette or theme shown in the UI preview, as 'palette:<id>' or 'theme:<id>'
+  const [previewSource, setPreviewSource] = useState('');
+  // Generated colors handed to the gradient builder; the key tells repeated hand-offs apart
+  const [gradientSeed, setGradientSeed] = useState<{ key: number; colors: Color[] } | null>(null);
+  const [activeTab, setActiveTab] = useState<'colors' | 'generator' | 'palettes' | 'themes' | 'gradients' | 'accessibility' | 'export'>('colors');
 
-  function handleStartEditName(idx: number) {
-    setEditingIdx(idx);
-    setEditingName(combinationHistory[idx]?.name || '');
+  // Every library change goes through the undo history
+  const history = useLibraryHistory(
+    { colors, palettes, combinations: combinationHistory, themes, gradients },
+    data => {
+      setStoredColors(data.colors);
+      setStoredPalettes(data.palettes);
+      setStoredCombinations(data.combinations);
+      setStoredThemes(data.themes);
+      setStoredGradients(data.gradients);
+    },
+    storage.remoteVersion
+  );
+  const setColors = history.track(setStoredColors);
+  const setPalettes = history.track(setStoredPalettes);
+  const setCombinationHistory = history.track(setStoredCombinations);
+  const setThemes = history.track(setStoredThemes);
+  const setGradients = history.track(setStoredGradients);
+
+  const showUndoToast = (message: string) => {
+    setToast({ id: Date.now(), message, version: history.getVersion() });
+  };
+
+  // Only undo while the announced change is still the latest one; otherwise Undo would revert a later edit
+  const undoFromToast = () => {
+    if (toast && history.getVersion() === toast.version) history.undo();
+    setToast(null);
+  };
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      const shared = readSharedPaletteFromHash(window.location.hash);
+      if (shared !== undefined) setSharedPalette(shared);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const closeSharedPalette = () => {
+    setSharedPalette(undefined);
+    clearShareHash();
+  };
+
+  const importSharedPalette = (shared: SharedPalette) => {
+    const paletteColors = shared.colors.map(color =>
+      createColor(color.name || suggestColorName(color.hex), toHex8(color.hex, color.alpha ?? 1))
+    );
+    setPalettes(prev => [createPalette(shared.name, paletteColors), ...prev]);
+    closeSharedPalette();
+    setActiveTab('palettes');
+    showUndoToast(`Imported palette "${shared.name}"`);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo.
+  // The listener is registered once and reads the latest history through the ref
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      if ((e.target as HTMLElement).closest('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) {
+        historyRef.current.redo();
+      } else {
+        historyRef.current.undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  function handleCombine(combination: ColorCombination) {
+    setCombinationHistory(prev => [combination, ...prev]);
+  }
+  function handleRenameCombination(id: string, name: string) {
+    setCombinationHistory(prev => prev.map(combo =>
+      combo.id === id ? { ...combo, name } : combo
+    ));
   }
-  function handleSaveName(idx: number) {
-    setCombinationHistory(prev => prev.map((combo, i) =>
-      i === idx ? { ...combo, name: editingName } : combo
-    ))
-    setEditingIdx(null);
-    setEditingName('');
+  function handleDeleteCombination(id: string) {
+    setCombinationHistory(prev => prev.filter(combo => combo.id !== id));
+    showUndoToast('Combination deleted');
   }
-  function handleDeleteCombination(idx: number) {
-    setCombinationHistory(prev => prev.filter((_, i) => i !== idx));
+  function handleSaveCombinationToLibrary(combination: ColorCombination) {
+    const name = combination.name.trim() || suggestColorName(combination.result);
+    setColors(prev => [...withoutDuplicateHexes(prev, [createColor(name, combination.result)]), ...prev]);
+  }
+  function handleCreatePaletteFromCombination(combination: ColorCombination) {
+    const name = combination.name.trim() || 'Combination';
+    const paletteColors = [
+      ...combination.colors.map((hex, i) => createColor(`${name} ${i + 1}`, hex)),
+      createColor(`${name} Mix`, combination.result)
+    ];
+    setPalettes(prev => [createPalette(name, paletteColors), ...prev]);
   }
 
-  // Filter colors based on search and favorites
+  // Filter colors based on search, favorites and the advanced filters
   const filteredColors = useMemo(() => {
-    return colors.filter(color => {
+    const matching = filterColors(colors, colorFilters).filter(color => {
       const matchesSearch = color.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                          color.hex.toLowerCase().includes(searchTerm.toLowerCase());
+                          color.hex.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                          !!color.note?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                          !!color.tags?.some(tag => tag.includes(searchTerm.toLowerCase()));
       const matchesFavorites = !filterFavorites || color.isFavorite;
       return matchesSearch && matchesFavorites;
     });
-  }, [colors, searchTerm, filterFavorites]);
+    return sortColors(matching, sortBy, getNearColor(colorFilters));
+  }, [colors, searchTerm, filterFavorites, colorFilters, sortBy]);
+
+  const activeFilterCount = countActiveFilters(colorFilters);
+
+  // Ids of deleted colors may linger in the set, so always go through the library
+  const selectedColors = useMemo(
+    () => colors.filter(color => selectedIds.has(color.id)),
+    [colors, selectedIds]
+  );
+
+  // The name is optional; an empty field falls back to the suggested one
+  const newColorHex = normalizeHex(newColorValue);
+  const suggestedColorName = newColorHex ? suggestColorName(newColorHex) : '';
+  const existingNewColor = newColorHex ? findColorByHex(colors, toHex8(newColorHex, newColorAlpha)) : undefined;
 
   const addColor = () => {
-    if (!newColorName.trim()) return;
-
-    const rgb = hexToRgb(newColorValue);
-    const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
-
-    const newColor: Color = {
-      id: Date.now().toString(),
-      name: newColorName.trim(),
-      hex: newColorValue,
-      rgb,
-      hsl,
-      isFavorite: false,
-      createdAt: new Date()
-    };
+    if (!newColorHex || existingNewColor) return;
+
+    const newColor = createColor(newColorName.trim() || suggestedColorName, toHex8(newColorHex, newColorAlpha));
 
     setColors(prev => [newColor, ...prev]);
     setNewColorName('');
   };
 
   const addGeneratedColors = (generatedColors: Color[]) => {
-    setColors(prev => [...generatedColors, ...prev]);
+    setColors(prev => [...withoutDuplicateHexes(prev, generatedColors), ...prev]);
   };
 
   const toggleFavorite = (id: string) => {
@@ -125,7 +264,15 @@ function App() {
   };
 
   const deleteColor = (id: string) => {
+    const color = colors.find(c => c.id === id);
     setColors(prev => prev.filter(color => color.id !== id));
+    showUndoToast(`Deleted "${color?.name ?? 'color'}"`);
+  };
+
+  const mergeSimilarColors = (merges: { keepId: string; mergeIds: string[] }[]) => {
+    setColors(prev => merges.reduce((result, { keepId, mergeIds }) => mergeColors(result, keepId, mergeIds), prev));
+    const removed = merges.reduce((sum, { mergeIds }) => sum + mergeIds.length - 1, 0);
+    showUndoToast(`Merged ${removed} similar color${removed === 1 ? '' : 's'}`);
   };
 
   const renameColor = (id: string, newName: string) => {
@@ -134,38 +281,258 @@ function App() {
     ));
   };
 
+  const updateColorDetails = (id: string, details: ItemDetails) => {
+    setColors(prev => prev.map(color =>
+      color.id === id ? { ...color, ...details } : color
+    ));
+  };
+
+  // Applies to every color currently shown in the Colors tab
+  const bulkTagColors = (tags: string[], mode: 'add' | 'remove') => {
+    const ids = new Set(filteredColors.map(color => color.id));
+    setColors(prev => updateTagsOf(prev, ids, tags, mode));
+  };
+
+  const selectColor = (id: string, shiftKey: boolean) => {
+    const anchorIndex = filteredColors.findIndex(color => color.id === selectionAnchor.current);
+    const index = filteredColors.findIndex(color => color.id === id);
+
+    if (shiftKey && anchorIndex !== -1 && index !== -1) {
+      const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+      setSelectedIds(prev => {
+        const next = new Set(prev);
+        filteredColors.slice(from, to + 1).forEach(color => next.add(color.id));
+        return next;
+      });
+      return;
+    }
+
+    selectionAnchor.current = id;
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const selectAllFiltered = () => {
+    setSelectedIds(new Set(filteredColors.map(color => color.id)));
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    selectionAnchor.current = null;
+  };
+
+  const updateSelectedColors = (update: (color: Color) => Color) => {
+    setColors(prev => prev.map(color => selectedIds.has(color.id) ? update(color) : color));
+  };
+
+  const favoriteSelected = (isFavorite: boolean) => {
+    updateSelectedColors(color => ({ ...color, isFavorite }));
+  };
+
+  const tagSelected = (tags: string[]) => {
+    setColors(prev => updateTagsOf(prev, selectedIds, tags, 'add'));
+  };
+
+  const adjustSelected = (adjustment: ColorAdjustment) => {
+    updateSelectedColors(color => adjustColor(color, adjustment));
+    showUndoToast(`Adjusted ${selectedColors.length} color${selectedColors.length === 1 ? '' : 's'}`);
+  };
+
+  const deleteSelected = () => {
+    const count = selectedColors.length;
+    setColors(prev => prev.filter(color => !selectedIds.has(color.id)));
+    clearSelection();
+    showUndoToast(`Deleted ${count} color${count === 1 ? '' : 's'}`);
+  };
+
+  const createPaletteFromSelection = (name: string) => {
+    setPalettes(prev => [createPalette(name, selectedColors), ...prev]);
+    showUndoToast(`Created palette "${name}" with ${selectedColors.length} colors`);
+  };
+
+  const exportSelected = (format: ExportFormat | 'json') => {
+    if (format === 'json') {
+      const data = createExportData({ colors: selectedColors, palettes: [], combinations: [], themes: [], gradients: [] });
+      downloadFile(JSON.stringify(data, null, 2), 'selected-colors.json', 'application/json');
+      return;
+    }
+    const formatInfo = exportFormats.find(f => f.key === format)!;
+    downloadFile(exportColorsAs(selectedColors, format), formatInfo.fileName, formatInfo.mimeType);
+  };
+
+  const filterByTag = (tag: string) => {
+    if (!colorFilters.tags.includes(tag)) {
+      setColorFilters({ ...colorFilters, tags: [...colorFilters.tags, tag] });
+    }
+    setShowFilters(true);
+  };
+
+  const updatePalette = (id: string, update: (palette: ColorPalette) => ColorPalette) => {
+    setPalettes(prev => prev.map(palette =>
+      palette.id === id ? update(palette) : palette
+    ));
+  };
+
+  const handleCreatePalette = (name: string, paletteColors: Color[] = []) => {
+    setPalettes(prev => [createPalette(name, paletteColors), ...prev]);
+  };
+
+  const togglePaletteFavorite = (id: string) => {
+    updatePalette(id, palette => ({ ...palette, isFavorite: !palette.isFavorite }));
+  };
+
+  const handleDuplicatePalette = (id: string) => {
+    setPalettes(prev => {
+      const index = prev.findIndex(palette => palette.id === id);
+      if (index === -1) return prev;
+      const copy = duplicatePalette(prev[index]);
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  };
+
+  const deletePalette = (id: string) => {
+    const palette = palettes.find(p => p.id === id);
+    if (!palette) return;
+    setPalettes(prev => prev.filter(p => p.id !== id));
+    showUndoToast(`Deleted palette "${palette.name}"`);
+  };
+
+  const renamePalette = (id: string, newName: string) => {
+    updatePalette(id, palette => ({ ...palette, name: newName }));
+  };
+
+  const updatePaletteDetails = (id: string, details: ItemDetails) => {
+    updatePalette(id, palette => ({ ...palette, ...details }));
+  };
+
+  const addColorsToPaletteById = (id: string, paletteColors: Color[]) => {
+    updatePalette(id, palette => addColorsToPalette(palette, paletteColors));
+  };
+
+  const removeColorFromPaletteById = (id: string, colorId: string) => {
+    updatePalette(id, palette => removeColorFromPalette(palette, colorId));
+  };
+
+  const reorderPaletteColors = (id: string, fromIndex: number, toIndex: number) => {
+    updatePalette(id, palette => ({ ...palette, colors: moveItem(palette.colors, fromIndex, toIndex) }));
+  };
+
+  const createTheme = (theme: ThemeMapping) => {
+    setThemes(prev => [theme, ...prev]);
+  };
+
+  const previewPalette = (id: string) => {
+    setPreviewSource(`palette:${id}`);
+    setActiveTab('themes');
+  };
+
+  const updateTheme = (id: string, update: (theme: ThemeMapping) => ThemeMapping) => {
+    setThemes(prev => prev.map(theme =>
+      theme.id === id ? update(theme) : theme
+    ));
+  };
+
+  const deleteTheme = (id: string) => {
+    const theme = themes.find(t => t.id === id);
+    if (!theme) return;
+    setThemes(prev => prev.filter(t => t.id !== id));
+    showUndoToast(`Deleted theme "${theme.name}"`);
+  };
+
+  const createGradient = (gradient: Gradient) => {
+    setGradients(prev => [gradient, ...prev]);
+  };
+
+  const startGradientFrom = (gradientColors: Color[]) => {
+    setGradientSeed({ key: Date.now(), colors: gradientColors });
+    setActiveTab('gradients');
+  };
+
+  const updateGradient = (id: string, update: (gradient: Gradient) => Gradient) => {
+    setGradients(prev => prev.map(gradient =>
+      gradient.id === id ? update(gradient) : gradient
+    ));
+  };
+
+  const deleteGradient = (id: string) => {
+    const gradient = gradients.find(g => g.id === id);
+    if (!gradient) return;
+    setGradients(prev => prev.filter(g => g.id !== id));
+    showUndoToast(`Deleted gradient "${gradient.name}"`);
+  };
+
   const exportColors = () => {
-    const dataStr = JSON.stringify({ colors, palettes }, null, 2);
-    const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
-    
-    const exportFileDefaultName = 'color-palette.json';
-    
-    const linkElement = document.createElement('a');
-    linkElement.setAttribute('href', dataUri);
-    linkElement.setAttribute('download', exportFileDefaultName);
-    linkElement.click();
+    const data = createExportData({ colors, palettes, combinations: combinationHistory, themes, gradients });
+    const dataStr = JSON.stringify(data, null, 2);
+    downloadFile(dataStr, 'color-palette.json', 'application/json');
   };
 
   const importColors = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    // Allow picking the same file again after cancelling
+    event.target.value = '';
+
+    // Swatch files from design tools become a new palette plus its colors
+    if (!file.name.toLowerCase().endsWith('.json')) {
+      parseSwatchFile(file)
+        .then(swatches => {
+          setImportPreview({
+            fileName: file.name,
+            version: 0,
+            data: { colors: swatches.colors, palettes: [createPalette(swatches.name, swatches.colors)], combinations: [], themes: [], gradients: [] },
+            issues: swatches.colors.length === 0
+              ? [{ section: 'file', index: -1, message: 'No colors were found in the file' }]
+              : []
+          });
+        })
+        .catch(error => {
+          setImportPreview({
+            fileName: file.name,
+            version: 0,
+            data: { colors: [], palettes: [], combinations: [], themes: [], gradients: [] },
+            issues: [{ section: 'file', index: -1, message: `The file could not be read: ${error.message}` }]
+          });
+        });
+      return;
+    }
 
     const reader = new FileReader();
     reader.onload = (e) => {
-      try {
-        const data = JSON.parse(e.target?.result as string);
-        if (data.colors) setColors(data.colors);
-        if (data.palettes) setPalettes(data.palettes);
-      } catch (error) {
-        console.error('Error importing colors:', error);
-      }
+      setImportPreview(parseImportFile(e.target?.result as string, file.name));
+    };
+    reader.onerror = () => {
+      setImportPreview({
+        fileName: file.name,
+        version: 0,
+        data: { colors: [], palettes: [], combinations: [], themes: [], gradients: [] },
+        issues: [{ section: 'file', index: -1, message: 'The file could not be read' }]
+      });
     };
     reader.readAsText(file);
   };
 
+  const confirmImport = (data: LibraryData) => {
+    setColors(data.colors);
+    setPalettes(data.palettes);
+    setCombinationHistory(data.combinations);
+    setThemes(data.themes);
+    setGradients(data.gradients);
+    setImportPreview(null);
+    showUndoToast(`Imported ${importPreview?.fileName ?? 'file'}`);
+  };
+
   const clearAllColors = () => {
-    if (window.confirm('Are you sure you want to delete all colors? This action cannot be undone.')) {
+    if (window.confirm('Are you sure you want to delete all colors?')) {
       setColors([]);
+      showUndoToast('All colors deleted');
     }
   };
 
@@ -190,6 +557,41 @@ function App() {
             </div>
             
             <div className="flex items-center space-x-4">
+              <div className="flex items-center space-x-1 bg-gray-700 rounded-lg p-1">
+                <button
+                  onClick={history.undo}
+                  disabled={!history.canUndo}
+                  className="p-2 rounded text-gray-300 hover:text-white disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={history.redo}
+                  disabled={!history.canRedo}
+                  className="p-2 rounded text-gray-300 hover:text-white disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="flex items-center space-x-2 bg-gray-700 rounded-lg px-3 py-1">
+                <Eye className={`w-4 h-4 ${visionMode === 'normal' ? 'text-gray-400' : 'text-purple-400'}`} />
+                <select
+                  value={visionMode}
+                  onChange={(e) => setVisionMode(e.target.value as VisionMode)}
+                  className="bg-transparent text-sm text-gray-300 py-1 focus:outline-none"
+                  title="Simulate color vision deficiency"
+                >
+                  {visionModes.map(mode => (
+                    <option key={mode.key} value={mode.key} className="bg-gray-800">
+                      {mode.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div className="flex items-center space-x-2 bg-gray-700 rounded-lg p-1">
                 <button
                   onClick={() => setViewMode('grid')}
@@ -222,7 +624,7 @@ function App() {
                 <span>Import</span>
                 <input
                   type="file"
-                  accept=".json"
+                  accept={['.json', ...SWATCH_FILE_EXTENSIONS].join(',')}
                   onChange={importColors}
                   className="hidden"
                 />
@@ -239,7 +641,11 @@ function App() {
             {[
               { key: 'colors', label: 'My Colors', count: colors.length },
               { key: 'generator', label: 'Generator', count: null },
-              { key: 'palettes', label: 'Palettes', count: palettes.length }
+              { key: 'palettes', label: 'Palettes', count: palettes.length },
+              { key: 'themes', label: 'Themes', count: themes.length },
+              { key: 'gradients', label: 'Gradients', count: gradients.length },
+              { key: 'accessibility', label: 'Accessibility', count: null },
+              { key: 'export', label: 'Export', count: null }
             ].map(tab => (
               <button
                 key={tab.key}
@@ -264,224 +670,335 @@ function App() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-6 py-8">
-        {activeTab === 'colors' && (
-          <div className="space-y-8">
-            {/* Add New Color */}
-            <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
-              <h2 className="text-xl font-bold text-white mb-4 flex items-center space-x-2">
-                <Plus className="w-5 h-5" />
-                <span>Add New Color</span>
-              </h2>
-              <div className="flex items-end space-x-4">
-                <div className="flex-1">
-                  <label className="block text-sm font-medium text-gray-300 mb-2">
-                    Color Name
-                  </label>
-                  <input
-                    type="text"
-                    value={newColorName}
-                    onChange={(e) => setNewColorName(e.target.value)}
-                    placeholder="Enter color name..."
-                    className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-purple-500 focus:outline-none"
-                    onKeyDown={(e) => e.key === 'Enter' && addColor()}
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2">
-                    Color Value
-                  </label>
-                  <ColorPicker 
-                    color={newColorValue}
-                    onChange={setNewColorValue}
-                  />
-                </div>
-                <button
-                  onClick={addColor}
-                  disabled={!newColorName.trim()}
-                  className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-6 py-2 rounded-lg transition-colors"
-                >
-                  Add Color
-                </button>
-              </div>
+        {storage.error && (
+          <div className="mb-6 flex items-start justify-between p-4 rounded-lg bg-red-900/40 border border-red-600 text-red-200">
+            <div className="flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              <span className="text-sm">{storage.error}</span>
             </div>
+            <button onClick={storage.dismissError} className="ml-4 p-1 text-red-300 hover:text-white transition-colors">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
 
-            {/* Search and Filters */}
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-4">
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
-                  <input
-                    type="text"
-                    placeholder="Search colors..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    className="bg-gray-800 border border-gray-600 rounded-lg pl-10 pr-4 py-2 text-white focus:border-purple-500 focus:outline-none w-64"
-                  />
+        {!storage.isLoaded ? (
+          <div className="text-center py-16 text-gray-400">Loading your library...</div>
+        ) : (
+          <>
+            {activeTab === 'colors' && (
+              <div className="space-y-8">
+                {/* Add New Color */}
+                <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+                  <h2 className="text-xl font-bold text-white mb-4 flex items-center space-x-2">
+                    <Plus className="w-5 h-5" />
+                    <span>Add New Color</span>
+                  </h2>
+                  <div className="flex items-end space-x-4">
+                    <div className="flex-1">
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Color Name
+                      </label>
+                      <input
+                        type="text"
+                        value={newColorName}
+                        onChange={(e) => setNewColorName(e.target.value)}
+                        placeholder={suggestedColorName ? `${suggestedColorName} (suggested)` : 'Enter color name...'}
+                        className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-purple-500 focus:outline-none"
+                        onKeyDown={(e) => e.key === 'Enter' && addColor()}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Color Value
+                      </label>
+                      <ColorPicker 
+                        color={newColorValue}
+                        alpha={newColorAlpha}
+                        onAlphaChange={setNewColorAlpha}
+                        onChange={setNewColorValue}
+                      />
+                    </div>
+                    <button
+                      onClick={addColor}
+                      disabled={!newColorHex || !!existingNewColor}
+                      className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-6 py-2 rounded-lg transition-colors"
+                    >
+                      Add Color
+                    </button>
+                  </div>
+                  {existingNewColor && (
+                    <p className="text-sm text-yellow-400 mt-3">
+                      {getColorHex8(existingNewColor).toUpperCase()} is already in your library as "{existingNewColor.name}".
+                    </p>
+                  )}
                 </div>
+
+                {/* Search and Filters */}
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-4">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                      <input
+                        type="text"
+                        placeholder="Search colors..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="bg-gray-800 border border-gray-600 rounded-lg pl-10 pr-4 py-2 text-white focus:border-purple-500 focus:outline-none w-64"
+                      />
+                    </div>
                 
-                <button
-                  onClick={() => setFilterFavorites(!filterFavorites)}
-                  className={`flex items-center space-x-2 px-4 py-2 rounded-lg border transition-colors ${
-                    filterFavorites
-                      ? 'bg-red-600 border-red-500 text-white'
-                      : 'bg-gray-800 border-gray-600 text-gray-300 hover:border-gray-500'
-                  }`}
-                >
-                  <Heart className={`w-4 h-4 ${filterFavorites ? 'fill-current' : ''}`} />
-                  <span>Favorites</span>
-                  {favoriteColors.length > 0 && (
-                    <span className="bg-gray-700 text-xs px-2 py-1 rounded-full">
-                      {favoriteColors.length}
-                    </span>
+                    <button
+                      onClick={() => setFilterFavorites(!filterFavorites)}
+                      className={`flex items-center space-x-2 px-4 py-2 rounded-lg border transition-colors ${
+                        filterFavorites
+                          ? 'bg-red-600 border-red-500 text-white'
+                          : 'bg-gray-800 border-gray-600 text-gray-300 hover:border-gray-500'
+                      }`}
+                    >
+                      <Heart className={`w-4 h-4 ${filterFavorites ? 'fill-current' : ''}`} />
+                      <span>Favorites</span>
+                      {favoriteColors.length > 0 && (
+                        <span className="bg-gray-700 text-xs px-2 py-1 rounded-full">
+                          {favoriteColors.length}
+                        </span>
+                      )}
+                    </button>
+
+                    <button
+                      onClick={() => setShowFilters(!showFilters)}
+                      className={`flex items-center space-x-2 px-4 py-2 rounded-lg border transition-colors ${
+                        showFilters || activeFilterCount > 0
+                          ? 'bg-purple-600 border-purple-500 text-white'
+                          : 'bg-gray-800 border-gray-600 text-gray-300 hover:border-gray-500'
+                      }`}
+                    >
+                      <Filter className="w-4 h-4" />
+                      <span>Filters</span>
+                      {activeFilterCount > 0 && (
+                        <span className="bg-gray-700 text-xs px-2 py-1 rounded-full">
+                          {activeFilterCount}
+                        </span>
+                      )}
+                    </button>
+
+                    <select
+                      value={sortBy}
+                      onChange={(e) => setSortBy(e.target.value as ColorSortKey)}
+                      disabled={!!getNearColor(colorFilters)}
+                      title={getNearColor(colorFilters) ? 'Sorted by distance to the "Close to" color' : 'Sort colors'}
+                      className="bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-gray-300 focus:border-purple-500 focus:outline-none disabled:opacity-50"
+                    >
+                      {colorSortOptions.map(({ key, label }) => (
+                        <option key={key} value={key}>Sort: {label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {colors.length > 0 && (
+                    <div className="flex items-center space-x-4">
+                      <button
+                        onClick={() => setShowSimilar(!showSimilar)}
+                        className={`flex items-center space-x-2 transition-colors ${
+                          showSimilar ? 'text-purple-300' : 'text-gray-400 hover:text-white'
+                        }`}
+                      >
+                        <GitMerge className="w-4 h-4" />
+                        <span>Find Similar</span>
+                      </button>
+                      <button
+                        onClick={clearAllColors}
+                        className="flex items-center space-x-2 text-red-400 hover:text-red-300 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        <span>Clear All</span>
+                      </button>
+                    </div>
                   )}
-                </button>
-              </div>
+                </div>
 
-              {colors.length > 0 && (
-                <button
-                  onClick={clearAllColors}
-                  className="flex items-center space-x-2 text-red-400 hover:text-red-300 transition-colors"
-                >
-                  <Trash2 className="w-4 h-4" />
-                  <span>Clear All</span>
-                </button>
-              )}
-            </div>
+                {showFilters && (
+                  <ColorFilterPanel
+                    filters={colorFilters}
+                    availableTags={getAllTags(colors)}
+                    onChange={setColorFilters}
+                    matchingCount={filteredColors.length}
+                    onBulkTag={bulkTagColors}
+                  />
+                )}
 
-            {/* Colors Grid */}
-            {filteredColors.length > 0 ? (
-              <div className={`grid gap-6 ${
-                viewMode === 'grid' 
-                  ? 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4' 
-                  : 'grid-cols-1 md:grid-cols-2'
-              }`}>
-                {filteredColors.map((color) => (
-                  <ColorCard
-                    key={color.id}
-                    color={color}
-                    onToggleFavorite={toggleFavorite}
-                    onDelete={deleteColor}
-                    onRename={renameColor}
+                {showSimilar && colors.length > 0 && (
+                  <SimilarColorsPanel
+                    colors={colors}
+                    onMerge={mergeSimilarColors}
+                    onClose={() => setShowSimilar(false)}
                   />
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-16">
-                <Palette className="w-16 h-16 text-gray-600 mx-auto mb-4" />
-                <h3 className="text-xl font-semibold text-gray-400 mb-2">
-                  {colors.length === 0 ? 'No colors yet' : 'No colors found'}
-                </h3>
-                <p className="text-gray-500">
-                  {colors.length === 0 
-                    ? 'Add your first color to get started'
-                    : 'Try adjusting your search or filters'
-                  }
-                </p>
+                )}
+
+                {selectedColors.length > 0 && (
+                  <BulkActionBar
+                    selectedCount={selectedColors.length}
+                    visibleCount={filteredColors.length}
+                    onSelectAll={selectAllFiltered}
+                    onClearSelection={clearSelection}
+                    onFavorite={favoriteSelected}
+                    onTag={tagSelected}
+                    onCreatePalette={createPaletteFromSelection}
+                    onExport={exportSelected}
+                    onAdjust={adjustSelected}
+                    onDelete={deleteSelected}
+                  />
+                )}
+
+                {/* Colors Grid */}
+                {filteredColors.length > 0 ? (
+                  <div className={`grid gap-6 ${
+                    viewMode === 'grid' 
+                      ? 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4' 
+                      : 'grid-cols-1 md:grid-cols-2'
+                  }`}>
+                    {filteredColors.map((color) => (
+                      <ColorCard
+                        key={color.id}
+                        color={color}
+                        onToggleFavorite={toggleFavorite}
+                        onDelete={deleteColor}
+                        onRename={renameColor}
+                        onUpdateDetails={updateColorDetails}
+                        onTagClick={filterByTag}
+                        isSelected={selectedIds.has(color.id)}
+                        onSelect={selectColor}
+                        visionMode={visionMode}
+                      />
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-16">
+                    <Palette className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+                    <h3 className="text-xl font-semibold text-gray-400 mb-2">
+                      {colors.length === 0 ? 'No colors yet' : 'No colors found'}
+                    </h3>
+                    <p className="text-gray-500">
+                      {colors.length === 0 
+                        ? 'Add your first color to get started'
+                        : 'Try adjusting your search or filters'
+                      }
+                    </p>
+                  </div>
+                )}
               </div>
             )}
-          </div>
-        )}
 
-        {activeTab === 'generator' && (
-          <ColorGenerator onAddColors={addGeneratedColors} />
-        )}
+            {activeTab === 'generator' && (
+              <ColorGenerator
+                onAddColors={addGeneratedColors}
+                palettes={palettes}
+                onAddToPalette={addColorsToPaletteById}
+                onCreatePalette={handleCreatePalette}
+                onCreateGradient={startGradientFrom}
+                visionMode={visionMode}
+              />
+            )}
 
-        {activeTab === 'palettes' && (
-          <div className="max-w-lg mx-auto py-16 bg-gray-800 rounded-xl border border-gray-700 p-8">
-            <h2 className="text-xl font-bold text-white mb-6 flex items-center space-x-2 justify-center">
-              <Palette className="w-6 h-6" />
-              <span>Color Combination</span>
-            </h2>
-            <div className="flex flex-col space-y-6">
-              <div className="flex flex-row space-x-4 justify-center">
-                <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2 text-center">Color 1</label>
-                  <ColorPicker color={color1} onChange={setColor1} />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2 text-center">Color 2</label>
-                  <ColorPicker color={color2} onChange={setColor2} />
-                </div>
+            {activeTab === 'palettes' && (
+              <div className="space-y-8">
+                <PaletteManager
+                  palettes={palettes}
+                  libraryColors={colors}
+                  onCreatePalette={handleCreatePalette}
+                  onToggleFavorite={togglePaletteFavorite}
+                  onDuplicate={handleDuplicatePalette}
+                  onDelete={deletePalette}
+                  onRename={renamePalette}
+                  onUpdateDetails={updatePaletteDetails}
+                  onAddColors={addColorsToPaletteById}
+                  onRemoveColor={removeColorFromPaletteById}
+                  onReorderColors={reorderPaletteColors}
+                  onPreview={previewPalette}
+                  visionMode={visionMode}
+                />
+                <ColorCombiner
+                  history={combinationHistory}
+                  onCombine={handleCombine}
+                  onRenameCombination={handleRenameCombination}
+                  onDeleteCombination={handleDeleteCombination}
+                  onSaveToLibrary={handleSaveCombinationToLibrary}
+                  onCreatePalette={handleCreatePaletteFromCombination}
+                />
               </div>
-              <button
-                onClick={handleCombineColors}
-                className="bg-purple-600 hover:bg-purple-700 text-white px-6 py-2 rounded-lg transition-colors"
-              >
-                Combinar Colores
-              </button>
-              {combinedColor && (
-                <div className="mt-8 text-center">
-                  <label className="block text-sm font-medium text-gray-300 mb-2">Color Combinado</label>
-                  <div className="w-24 h-24 mx-auto rounded-full border-2 border-gray-600" style={{ backgroundColor: combinedColor }} />
-                  <div className="mt-2 font-mono text-white">{combinedColor.toUpperCase()}</div>
-                </div>
-              )}
-            </div>
-            {combinationHistory.length > 0 && (
-              <div className="mt-12">
-                <h3 className="text-lg font-semibold text-white mb-4 text-center">Historial de Combinaciones</h3>
-                <div className="flex flex-col space-y-4">
-                  {combinationHistory.map((combo, idx) => (
-                    <div key={idx} className="flex items-center justify-between bg-gray-700 rounded-lg p-4">
-                      <div className="flex items-center space-x-4 w-full">
-                        <div className="flex flex-col items-center w-1/3">
-                          <span className="text-xs text-gray-300 mb-1">Color 1</span>
-                          <div className="w-8 h-8 rounded" style={{ backgroundColor: combo.color1 }} />
-                          <span className="text-xs font-mono text-gray-400 mt-1">{combo.color1.toUpperCase()}</span>
-                        </div>
-                        <span className="text-white">+</span>
-                        <div className="flex flex-col items-center w-1/3">
-                          <span className="text-xs text-gray-300 mb-1">Color 2</span>
-                          <div className="w-8 h-8 rounded" style={{ backgroundColor: combo.color2 }} />
-                          <span className="text-xs font-mono text-gray-400 mt-1">{combo.color2.toUpperCase()}</span>
-                        </div>
-                        <span className="text-white">=</span>
-                        <div className="flex flex-col items-center w-1/3">
-                          <span className="text-xs text-gray-300 mb-1">Resultado</span>
-                          <div className="w-8 h-8 rounded border-2 border-white" style={{ backgroundColor: combo.result }} />
-                          <span className="text-xs font-mono text-gray-400 mt-1">{combo.result.toUpperCase()}</span>
-                        </div>
-                      </div>
-                      <div className="flex flex-col items-end ml-4">
-                        {/* Editar/agregar nombre */}
-                        {editingIdx === idx ? (
-                          <div className="flex items-center space-x-2">
-                            <input
-                              type="text"
-                              value={editingName}
-                              onChange={e => setEditingName(e.target.value)}
-                              onBlur={() => handleSaveName(idx)}
-                              onKeyDown={e => { if (e.key === 'Enter') handleSaveName(idx); }}
-                              className="w-32 p-1 text-gray-900 rounded bg-gray-100 text-xs focus:outline-none focus:ring"
-                              autoFocus
-                            />
-                            <button onClick={() => handleSaveName(idx)} className="text-purple-300 hover:text-white text-lg">✔</button>
-                          </div>
-                        ) : (
-                          <div className="flex items-center space-x-2">
-                            <span className="text-xs font-semibold text-purple-200">
-                              {combo.name ? combo.name : <span className="italic text-gray-400">Sin nombre</span>}
-                            </span>
-                            <button onClick={() => handleStartEditName(idx)} className="text-gray-300 hover:text-white text-lg">✎</button>
-                          </div>
-                        )}
-                        {/* Borrar */}
-                        <button
-                          className="mt-2 px-2 py-1 text-xs text-red-400 hover:text-red-300 rounded"
-                          title="Eliminar esta combinación"
-                          onClick={() => handleDeleteCombination(idx)}
-                        >
-                          🗑
-                        </button>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+            )}
+
+            {activeTab === 'themes' && (
+              <div className="space-y-8">
+                <ThemeManager
+                  themes={themes}
+                  libraryColors={colors}
+                  palettes={palettes}
+                  onCreateTheme={createTheme}
+                  onUpdateTheme={updateTheme}
+                  onDeleteTheme={deleteTheme}
+                  onAddColors={addGeneratedColors}
+                />
+                <UiPreviewPanel
+                  source={previewSource}
+                  onSourceChange={setPreviewSource}
+                  palettes={palettes}
+                  themes={themes}
+                  onCreateTheme={createTheme}
+                  onUpdateTheme={updateTheme}
+                />
               </div>
             )}
-          </div>
+
+            {activeTab === 'gradients' && (
+              <GradientBuilder
+                gradients={gradients}
+                libraryColors={colors}
+                seed={gradientSeed}
+                onCreateGradient={createGradient}
+                onUpdateGradient={updateGradient}
+                onDeleteGradient={deleteGradient}
+              />
+            )}
+
+            {activeTab === 'accessibility' && (
+              <AccessibilityPanel colors={colors} palettes={palettes} />
+            )}
+
+            {activeTab === 'export' && (
+              <ExportPanel colors={colors} palettes={palettes} />
+            )}
+          </>
         )}
       </main>
+
+      {importPreview && (
+        <ImportDialog
+          preview={importPreview}
+          current={{ colors, palettes, combinations: combinationHistory, themes, gradients }}
+          onConfirm={confirmImport}
+          onCancel={() => setImportPreview(null)}
+        />
+      )}
+
+      {sharedPalette !== undefined && storage.isLoaded && (
+        <SharedPaletteDialog
+          palette={sharedPalette}
+          onImport={importSharedPalette}
+          onClose={closeSharedPalette}
+        />
+      )}
+
+      {/* A toast whose change is no longer the latest is hidden rather than left offering a wrong Undo */}
+      {toast && toast.version === history.getVersion() && (
+        <Toast
+          key={toast.id}
+          message={toast.message}
+          actionLabel="Undo"
+          onAction={undoFromToast}
+          onDismiss={() => setToast(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { Eye, ArrowLeftRight, Wand2 } from 'lucide-react';
+import { Color, ColorPalette } from '../types/color';
+import {
+  getContrastRatio,
+  getWcagRating,
+  suggestAccessibleColor,
+  compositeOver,
+  toHex8,
+  getColorHex8,
+  swatchStyle
+} from '../utils/colorUtils';
+import { ColorPicker } from './ColorPicker';
+
+interface AccessibilityPanelProps {
+  colors: Color[];
+  palettes: ColorPalette[];
+}
+
+const RatingBadge: React.FC<{ label: string; pass: boolean }> = ({ label, pass }) => (
+  <div
+    className={`flex items-center justify-between px-3 py-2 rounded-lg border text-sm ${
+      pass
+        ? 'bg-green-900/40 border-green-600 text-green-300'
+        : 'bg-red-900/40 border-red-600 text-red-300'
+    }`}
+  >
+    <span>{label}</span>
+    <span className="font-semibold">{pass ? 'Pass' : 'Fail'}</span>
+  </div>
+);
+
+const getRatingLabel = (ratio: number): string => {
+  const rating = getWcagRating(ratio);
+  if (rating.aaaNormal) return 'AAA';
+  if (rating.aaNormal) return 'AA';
+  if (rating.aaLarge) return 'AA18';
+  return 'Fail';
+};
+
+export const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({ colors, palettes }) => {
+  const [foreground, setForeground] = useState('#ffffff');
+  const [background, setBackground] = useState('#6366f1');
+  const [foregroundAlpha, setForegroundAlpha] = useState(1);
+  const [backgroundAlpha, setBackgroundAlpha] = useState(1);
+  // Translucent colors are judged by what they look like on top of this
+  const [backdrop, setBackdrop] = useState('#ffffff');
+  const [targetRatio, setTargetRatio] = useState(4.5);
+  const [source, setSource] = useState('library');
+
+  const foregroundHex = toHex8(foreground, foregroundAlpha);
+  const backgroundHex = toHex8(background, backgroundAlpha);
+  const hasTranslucency = foregroundAlpha < 1 || backgroundAlpha < 1;
+  const ratio = getContrastRatio(foregroundHex, backgroundHex, backdrop);
+  const rating = getWcagRating(ratio);
+  // Suggestions are opaque text colors measured against the composited background
+  const suggestion = ratio < targetRatio
+    ? suggestAccessibleColor(foreground, compositeOver(backgroundHex, backdrop), targetRatio)
+    : null;
+
+  const selectedPalette = palettes.find(palette => palette.id === source);
+  const matrixColors = selectedPalette ? selectedPalette.colors : colors;
+  const matrixHasTranslucency = matrixColors.some(color => (color.alpha ?? 1) < 1);
+
+  const checkPair = (fg: { hex: string; alpha: number }, bg: { hex: string; alpha: number }) => {
+    setForeground(fg.hex);
+    setForegroundAlpha(fg.alpha);
+    setBackground(bg.hex);
+    setBackgroundAlpha(bg.alpha);
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Contrast Checker */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+        <div className="flex items-center space-x-3 mb-6">
+          <Eye className="w-6 h-6 text-purple-400" />
+          <h2 className="text-xl font-bold text-white">Contrast Checker</h2>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Text</label>
+            <ColorPicker
+              color={foreground}
+              onChange={setForeground}
+              alpha={foregroundAlpha}
+              onAlphaChange={setForegroundAlpha}
+            />
+          </div>
+          <button
+            onClick={() => checkPair({ hex: background, alpha: backgroundAlpha }, { hex: foreground, alpha: foregroundAlpha })}
+            className="p-2 mb-1 text-gray-400 hover:text-white transition-colors"
+            title="Swap colors"
+          >
+            <ArrowLeftRight className="w-5 h-5" />
+          </button>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Background</label>
+            <ColorPicker
+              color={background}
+              onChange={setBackground}
+              alpha={backgroundAlpha}
+              onAlphaChange={setBackgroundAlpha}
+            />
+          </div>
+          {(hasTranslucency || matrixHasTranslucency) && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Shown over</label>
+              <ColorPicker color={backdrop} onChange={setBackdrop} />
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="rounded-lg border border-gray-700 overflow-hidden" style={{ backgroundColor: backdrop }}>
+            <div className="p-6 h-full" style={{ backgroundColor: backgroundHex, color: foregroundHex }}>
+              <p className="text-3xl font-bold mb-2">Large text sample</p>
+              <p className="text-base">
+                Normal body text. The quick brown fox jumps over the lazy dog.
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="text-4xl font-bold text-white font-mono">
+              {ratio.toFixed(2)}:1
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <RatingBadge label="AA normal" pass={rating.aaNormal} />
+              <RatingBadge label="AA large" pass={rating.aaLarge} />
+              <RatingBadge label="AAA normal" pass={rating.aaaNormal} />
+              <RatingBadge label="AAA large" pass={rating.aaaLarge} />
+            </div>
+          </div>
+        </div>
+
+        {/* Suggestion */}
+        <div className="mt-6 flex flex-wrap items-center gap-4">
+          <label className="text-sm font-medium text-gray-300">Target</label>
+          <select
+            value={targetRatio}
+            onChange={(e) => setTargetRatio(parseFloat(e.target.value))}
+            className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+          >
+            <option value={3}>AA large (3:1)</option>
+            <option value={4.5}>AA normal (4.5:1)</option>
+            <option value={7}>AAA normal (7:1)</option>
+          </select>
+          {ratio >= targetRatio ? (
+            <span className="text-sm text-green-400">This pair already meets the target.</span>
+          ) : suggestion ? (
+            <div className="flex items-center space-x-3">
+              <span className="text-sm text-gray-300">Nearest passing text color:</span>
+              <div className="w-6 h-6 rounded border-2 border-gray-500" style={{ backgroundColor: suggestion }} />
+              <code className="text-sm font-mono text-gray-300">
+                {suggestion.toUpperCase()} ({getContrastRatio(suggestion, backgroundHex, backdrop).toFixed(2)}:1)
+              </code>
+              <button
+                onClick={() => {
+                  setForeground(suggestion);
+                  setForegroundAlpha(1);
+                }}
+                className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 text-white px-3 py-1 rounded-lg transition-colors text-sm"
+              >
+                <Wand2 className="w-4 h-4" />
+                <span>Apply</span>
+              </button>
+            </div>
+          ) : (
+            <span className="text-sm text-red-400">
+              No lightness of this hue reaches the target on this background.
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Contrast Matrix */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-white">Contrast Matrix</h2>
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            className="bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-purple-500 focus:outline-none"
+          >
+            <option value="library">Whole library ({colors.length} colors)</option>
+            {palettes.map(palette => (
+              <option key={palette.id} value={palette.id}>
+                Palette: {palette.name} ({palette.colors.length} colors)
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {matrixColors.length > 1 ? (
+          <div className="overflow-auto">
+            <table className="text-xs border-separate border-spacing-1">
+              <thead>
+                <tr>
+                  <th className="text-gray-400 font-normal text-left p-1">Text ↓ / Background →</th>
+                  {matrixColors.map(bg => (
+                    <th key={bg.id} className="p-1" title={bg.name}>
+                      <div className="w-14 h-6 rounded mx-auto" style={swatchStyle(getColorHex8(bg))} />
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrixColors.map(fg => (
+                  <tr key={fg.id}>
+                    <th className="text-left p-1 font-normal text-gray-300 whitespace-nowrap">
+                      <div className="flex items-center space-x-2">
+                        <div className="w-4 h-4 rounded" style={swatchStyle(getColorHex8(fg))} />
+                        <span className="truncate max-w-32">{fg.name}</span>
+                      </div>
+                    </th>
+                    {matrixColors.map(bg => {
+                      if (fg.id === bg.id) {
+                        return <td key={bg.id} className="bg-gray-900 rounded" />;
+                      }
+                      const cellRatio = getContrastRatio(getColorHex8(fg), getColorHex8(bg), backdrop);
+                      const label = getRatingLabel(cellRatio);
+                      return (
+                        <td key={bg.id}>
+                          <button
+                            onClick={() => checkPair(
+                              { hex: fg.hex, alpha: fg.alpha ?? 1 },
+                              { hex: bg.hex, alpha: bg.alpha ?? 1 }
+                            )}
+                            className="w-14 h-14 rounded flex flex-col items-center justify-center border border-gray-700 hover:border-white transition-colors"
+                            style={{
+                              backgroundColor: compositeOver(getColorHex8(bg), backdrop),
+                              color: getColorHex8(fg)
+                            }}
+                            title={`${fg.name} on ${bg.name}: ${cellRatio.toFixed(2)}:1`}
+                          >
+                            <span className="text-base font-bold leading-none">Aa</span>
+                            <span className={`mt-1 px-1 rounded text-[10px] ${
+                              label === 'Fail' ? 'bg-red-600 text-white' : 'bg-black/60 text-white'
+                            }`}>
+                              {label} {cellRatio.toFixed(1)}
+                            </span>
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Add at least two colors to this source to build a contrast matrix.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { Heart, Trash2, Tag, FolderPlus, Download, SlidersHorizontal, X, CheckSquare } from 'lucide-react';
+import { ColorAdjustment, ExportFormat } from '../types/color';
+import { exportFormats } from '../utils/exportUtils';
+import { parseTags } from '../utils/tagUtils';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  visibleCount: number;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onFavorite: (isFavorite: boolean) => void;
+  onTag: (tags: string[]) => void;
+  onCreatePalette: (name: string) => void;
+  onExport: (format: ExportFormat | 'json') => void;
+  onAdjust: (adjustment: ColorAdjustment) => void;
+  onDelete: () => void;
+}
+
+type Panel = 'tag' | 'palette' | 'export' | 'adjust' | null;
+
+const noAdjustment: ColorAdjustment = { hueShift: 0, saturation: 0, lightness: 0 };
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  visibleCount,
+  onSelectAll,
+  onClearSelection,
+  onFavorite,
+  onTag,
+  onCreatePalette,
+  onExport,
+  onAdjust,
+  onDelete
+}) => {
+  const [panel, setPanel] = useState<Panel>(null);
+  const [tagInput, setTagInput] = useState('');
+  const [paletteName, setPaletteName] = useState('');
+  const [exportFormat, setExportFormat] = useState<ExportFormat | 'json'>('json');
+  const [adjustment, setAdjustment] = useState<ColorAdjustment>(noAdjustment);
+
+  const togglePanel = (next: Panel) => setPanel(panel === next ? null : next);
+
+  const applyTags = () => {
+    const tags = parseTags(tagInput);
+    if (tags.length === 0) return;
+    onTag(tags);
+    setTagInput('');
+    setPanel(null);
+  };
+
+  const createPalette = () => {
+    if (!paletteName.trim()) return;
+    onCreatePalette(paletteName.trim());
+    setPaletteName('');
+    setPanel(null);
+  };
+
+  const applyAdjustment = () => {
+    onAdjust(adjustment);
+    setAdjustment(noAdjustment);
+  };
+
+  const actionClass = (active = false) => `flex items-center space-x-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+    active ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+  }`;
+
+  const sliders: { key: keyof ColorAdjustment; label: string; min: number; max: number; unit: string }[] = [
+    { key: 'hueShift', label: 'Shift hue', min: -180, max: 180, unit: '°' },
+    { key: 'lightness', label: 'Lighten', min: -50, max: 50, unit: '%' },
+    { key: 'saturation', label: 'Saturate', min: -50, max: 50, unit: '%' }
+  ];
+
+  return (
+    <div className="sticky top-24 z-30 bg-gray-800 border border-purple-500/60 rounded-xl p-4 shadow-lg space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-semibold text-white mr-2">{selectedCount} selected</span>
+        {selectedCount < visibleCount && (
+          <button onClick={onSelectAll} className={actionClass()}>
+            <CheckSquare className="w-4 h-4" />
+            <span>Select all {visibleCount}</span>
+          </button>
+        )}
+        <button onClick={() => onFavorite(true)} className={actionClass()}>
+          <Heart className="w-4 h-4" />
+          <span>Favorite</span>
+        </button>
+        <button onClick={() => onFavorite(false)} className={actionClass()}>
+          <Heart className="w-4 h-4 opacity-50" />
+          <span>Unfavorite</span>
+        </button>
+        <button onClick={() => togglePanel('tag')} className={actionClass(panel === 'tag')}>
+          <Tag className="w-4 h-4" />
+          <span>Tag</span>
+        </button>
+        <button onClick={() => togglePanel('palette')} className={actionClass(panel === 'palette')}>
+          <FolderPlus className="w-4 h-4" />
+          <span>Create Palette</span>
+        </button>
+        <button onClick={() => togglePanel('export')} className={actionClass(panel === 'export')}>
+          <Download className="w-4 h-4" />
+          <span>Export</span>
+        </button>
+        <button onClick={() => togglePanel('adjust')} className={actionClass(panel === 'adjust')}>
+          <SlidersHorizontal className="w-4 h-4" />
+          <span>Adjust</span>
+        </button>
+        <button
+          onClick={onDelete}
+          className="flex items-center space-x-2 px-3 py-2 rounded-lg text-sm bg-red-600/80 hover:bg-red-600 text-white transition-colors"
+        >
+          <Trash2 className="w-4 h-4" />
+          <span>Delete</span>
+        </button>
+        <button
+          onClick={onClearSelection}
+          className="ml-auto p-2 text-gray-400 hover:text-white transition-colors"
+          title="Clear selection"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {panel === 'tag' && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && applyTags()}
+            placeholder="brand, dark-mode"
+            className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+            autoFocus
+          />
+          <button
+            onClick={applyTags}
+            disabled={!tagInput.trim()}
+            className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors text-sm"
+          >
+            Add Tags
+          </button>
+        </div>
+      )}
+
+      {panel === 'palette' && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={paletteName}
+            onChange={(e) => setPaletteName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && createPalette()}
+            placeholder="New palette name..."
+            className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+            autoFocus
+          />
+          <button
+            onClick={createPalette}
+            disabled={!paletteName.trim()}
+            className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors text-sm"
+          >
+            Create
+          </button>
+        </div>
+      )}
+
+      {panel === 'export' && (
+        <div className="flex items-center space-x-2">
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat | 'json')}
+            className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+          >
+            <option value="json">DevPalette library (.json)</option>
+            {exportFormats.map(({ key, label, fileName }) => (
+              <option key={key} value={key}>{label} ({fileName})</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onExport(exportFormat)}
+            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors text-sm"
+          >
+            Download
+          </button>
+        </div>
+      )}
+
+      {panel === 'adjust' && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          {sliders.map(({ key, label, min, max, unit }) => (
+            <div key={key}>
+              <label className="block text-xs text-gray-400 mb-1">
+                {label}: {adjustment[key] > 0 ? '+' : ''}{adjustment[key]}{unit}
+              </label>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                value={adjustment[key]}
+                onChange={(e) => setAdjustment({ ...adjustment, [key]: parseInt(e.target.value) })}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+          ))}
+          <button
+            onClick={applyAdjustment}
+            disabled={adjustment.hueShift === 0 && adjustment.lightness === 0 && adjustment.saturation === 0}
+            className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors text-sm"
+          >
+            Apply to {selectedCount}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,23 @@
 import React, { useState } from 'react';
-import { Heart, Copy, Check, Edit2, Trash2 } from 'lucide-react';
-import { Color, ColorFormat } from '../types/color';
-import { formatColorCode, getContrastColor } from '../utils/colorUtils';
+import { Heart, Copy, Check, Edit2, Trash2, Square, CheckSquare } from 'lucide-react';
+import { Color, ColorFormat, ItemDetails, VisionMode } from '../types/color';
+import { formatColorCode, getContrastColor, getColorHex8, compositeOver, toHex8, swatchStyle } from '../utils/colorUtils';
+import { simulateColorVision } from '../utils/visionUtils';
+import { findClosestCssColor } from '../utils/colorNames';
+import { TagEditor } from './TagEditor';
+import { NoteEditor } from './NoteEditor';
 
 interface ColorCardProps {
   color: Color;
   onToggleFavorite: (id: string) => void;
   onDelete?: (id: string) => void;
   onRename?: (id: string, newName: string) => void;
+  onUpdateDetails?: (id: string, details: ItemDetails) => void;
+  onTagClick?: (tag: string) => void;
+  isSelected?: boolean;
+  onSelect?: (id: string, shiftKey: boolean) => void;
   showActions?: boolean;
+  visionMode?: VisionMode;
 }
 
 export const ColorCard: React.FC<ColorCardProps> = ({ 
@@ -16,7 +25,12 @@ export const ColorCard: React.FC<ColorCardProps> = ({
   onToggleFavorite, 
   onDelete,
   onRename,
-  showActions = true 
+  onUpdateDetails,
+  onTagClick,
+  isSelected = false,
+  onSelect,
+  showActions = true,
+  visionMode = 'normal'
 }) => {
   const [copiedFormat, setCopiedFormat] = useState<ColorFormat | null>(null);
   const [isEditing, setIsEditing] = useState(false);
@@ -26,6 +40,8 @@ export const ColorCard: React.FC<ColorCardProps> = ({
     { key: 'hex', label: 'HEX' },
     { key: 'rgb', label: 'RGB' },
     { key: 'hsl', label: 'HSL' },
+    { key: 'oklch', label: 'OKLCH' },
+    { key: 'lab', label: 'LAB' },
     { key: 'css-var', label: 'CSS' }
   ];
 
@@ -47,16 +63,33 @@ export const ColorCard: React.FC<ColorCardProps> = ({
     setIsEditing(false);
   };
 
-  const textColor = getContrastColor(color.hex);
+  const alpha = color.alpha ?? 1;
+  const displayHex = simulateColorVision(color.hex, visionMode);
+  const textColor = getContrastColor(compositeOver(toHex8(displayHex, alpha), '#ffffff'));
+  const closestCss = findClosestCssColor(color.hex);
 
   return (
-    <div className="bg-gray-800 rounded-xl border border-gray-700 overflow-hidden hover:border-gray-600 transition-all duration-300 group">
+    <div className={`bg-gray-800 rounded-xl border overflow-hidden transition-all duration-300 group ${
+      isSelected ? 'border-purple-500 ring-2 ring-purple-500/50' : 'border-gray-700 hover:border-gray-600'
+    }`}>
       {/* Color Preview */}
       <div 
         className="h-32 relative flex items-center justify-center"
-        style={{ backgroundColor: color.hex }}
+        style={swatchStyle(toHex8(displayHex, alpha))}
       >
         <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
+
+        {onSelect && (
+          <button
+            onClick={(e) => onSelect(color.id, e.shiftKey)}
+            className={`absolute top-3 left-3 p-2 rounded-lg backdrop-blur-sm transition-all ${
+              isSelected ? 'bg-purple-600 text-white' : 'bg-black/20 text-white opacity-0 group-hover:opacity-100'
+            }`}
+            title="Select (shift-click to select a range)"
+          >
+            {isSelected ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+          </button>
+        )}
         
         {showActions && (
           <div className="absolute top-3 right-3 flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -86,7 +119,8 @@ export const ColorCard: React.FC<ColorCardProps> = ({
           className="text-center font-bold text-lg opacity-0 group-hover:opacity-100 transition-opacity"
           style={{ color: textColor }}
         >
-          {color.hex.toUpperCase()}
+          {getColorHex8(color).toUpperCase()}
+          {alpha < 1 && <div className="text-xs font-medium">{Math.round(alpha * 100)}% opacity</div>}
         </div>
       </div>
 
@@ -125,11 +159,33 @@ export const ColorCard: React.FC<ColorCardProps> = ({
           )}
         </div>
 
+        <div className="flex items-center space-x-2 mb-3 text-xs text-gray-400" title="Closest CSS named color">
+          <span className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: closestCss.hex }} />
+          <span className="font-mono truncate">
+            {closestCss.distance < 0.5 ? '=' : '≈'} {closestCss.name}
+          </span>
+        </div>
+
+        {(onUpdateDetails || color.tags?.length || color.note) && (
+          <div className="space-y-2 mb-3">
+            <TagEditor
+              tags={color.tags || []}
+              onChange={onUpdateDetails && (tags => onUpdateDetails(color.id, { tags }))}
+              onTagClick={onTagClick}
+            />
+            <NoteEditor
+              note={color.note || ''}
+              placeholder="Add a usage note"
+              onChange={onUpdateDetails && (note => onUpdateDetails(color.id, { note }))}
+            />
+          </div>
+        )}
+
         {/* Color Codes */}
         <div className="space-y-2">
           {formats.map(({ key, label }) => (
             <div key={key} className="flex items-center justify-between">
-              <span className="text-xs text-gray-400 font-medium w-8">
+              <span className="text-xs text-gray-400 font-medium w-12">
                 {label}
               </span>
               <div className="flex items-center space-x-2 flex-1 min-w-0">
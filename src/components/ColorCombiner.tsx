@@ -0,0 +1,343 @@
+import React, { useState } from 'react';
+import { Palette, Plus, X, Copy, Check, Search, FolderPlus } from 'lucide-react';
+import { ColorCombination, MixSpace } from '../types/color';
+import { mixColors, getColorMixExpression, generateBlendSequence, generateId } from '../utils/colorUtils';
+import { ColorPicker } from './ColorPicker';
+
+interface ColorCombinerProps {
+  history: ColorCombination[];
+  onCombine: (combination: ColorCombination) => void;
+  onRenameCombination: (id: string, name: string) => void;
+  onDeleteCombination: (id: string) => void;
+  onSaveToLibrary: (combination: ColorCombination) => void;
+  onCreatePalette: (combination: ColorCombination) => void;
+}
+
+const mixSpaces: { key: MixSpace; label: string }[] = [
+  { key: 'srgb', label: 'sRGB' },
+  { key: 'srgb-linear', label: 'RGB lineal' },
+  { key: 'oklab', label: 'OKLab' },
+  { key: 'lch', label: 'LCH' }
+];
+
+export const ColorCombiner: React.FC<ColorCombinerProps> = ({
+  history,
+  onCombine,
+  onRenameCombination,
+  onDeleteCombination,
+  onSaveToLibrary,
+  onCreatePalette
+}) => {
+  const [inputs, setInputs] = useState([
+    { color: '#6366f1', weight: 50 },
+    { color: '#ff6b9d', weight: 50 }
+  ]);
+  const [space, setSpace] = useState<MixSpace>('oklab');
+  const [blendSteps, setBlendSteps] = useState(5);
+  const [combinedColor, setCombinedColor] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [copiedExpression, setCopiedExpression] = useState<string | null>(null);
+  const [historySearch, setHistorySearch] = useState('');
+
+  const searchTerm = historySearch.trim().toLowerCase();
+  const filteredHistory = history.filter(combo =>
+    !searchTerm ||
+    combo.name.toLowerCase().includes(searchTerm) ||
+    combo.result.toLowerCase().includes(searchTerm) ||
+    combo.colors.some(color => color.toLowerCase().includes(searchTerm))
+  );
+
+  const colors = inputs.map(input => input.color);
+  const weights = inputs.map(input => input.weight);
+  const expression = getColorMixExpression(colors, weights, space);
+  const blendSequence = generateBlendSequence(colors[0], colors[1], blendSteps, space);
+
+  const updateInput = (index: number, changes: Partial<{ color: string; weight: number }>) => {
+    setInputs(prev => prev.map((input, i) => i === index ? { ...input, ...changes } : input));
+  };
+
+  // With two inputs the slider is a single ratio: the first color's share, the second gets the rest
+  const setRatio = (ratio: number) => {
+    setInputs(prev => [
+      { ...prev[0], weight: ratio },
+      { ...prev[1], weight: 100 - ratio }
+    ]);
+  };
+
+  function handleCombineColors() {
+    const resultHex = mixColors(colors, weights, space);
+    setCombinedColor(resultHex);
+    onCombine({
+      id: generateId(),
+      colors,
+      weights,
+      space,
+      result: resultHex,
+      name: '',
+      createdAt: new Date()
+    });
+  }
+
+  function handleStartEditName(combo: ColorCombination) {
+    setEditingId(combo.id);
+    setEditingName(combo.name || '');
+  }
+  function handleSaveName(id: string) {
+    onRenameCombination(id, editingName);
+    setEditingId(null);
+    setEditingName('');
+  }
+
+  const copyExpression = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopiedExpression(value);
+      setTimeout(() => setCopiedExpression(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto py-16 bg-gray-800 rounded-xl border border-gray-700 p-8">
+      <h2 className="text-xl font-bold text-white mb-6 flex items-center space-x-2 justify-center">
+        <Palette className="w-6 h-6" />
+        <span>Color Combination</span>
+      </h2>
+      <div className="flex flex-col space-y-6">
+        {/* Colores de entrada */}
+        <div className="flex flex-row flex-wrap gap-4 justify-center">
+          {inputs.map((input, index) => (
+            <div key={index} className="flex flex-col items-center">
+              <div className="flex items-center space-x-1 mb-2">
+                <label className="block text-sm font-medium text-gray-300 text-center">Color {index + 1}</label>
+                {inputs.length > 2 && (
+                  <button
+                    onClick={() => setInputs(prev => prev.filter((_, i) => i !== index))}
+                    className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+                    title="Quitar color"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+              <ColorPicker color={input.color} onChange={(color) => updateInput(index, { color })} />
+              {inputs.length > 2 && (
+                <div className="mt-2 w-full">
+                  <label className="block text-xs text-gray-400 text-center">Peso: {input.weight}</label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    value={input.weight}
+                    onChange={(e) => updateInput(index, { weight: parseInt(e.target.value) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={() => setInputs(prev => [...prev, { color: '#4ecdc4', weight: 50 }])}
+            className="self-end flex items-center space-x-1 text-sm text-purple-400 hover:text-purple-300 px-3 py-2 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Agregar color</span>
+          </button>
+        </div>
+
+        {inputs.length === 2 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2 text-center">
+              Proporción: {inputs[0].weight}% / {inputs[1].weight}%
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={inputs[0].weight}
+              onChange={(e) => setRatio(parseInt(e.target.value))}
+              className="w-full h-2 rounded-lg appearance-none cursor-pointer"
+              style={{ background: `linear-gradient(to right, ${colors[1]}, ${colors[0]})` }}
+            />
+          </div>
+        )}
+
+        {/* Modo de mezcla */}
+        <div className="flex justify-center space-x-2">
+          {mixSpaces.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setSpace(key)}
+              className={`px-3 py-1 rounded text-sm transition-colors ${
+                space === key
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={handleCombineColors}
+          className="bg-purple-600 hover:bg-purple-700 text-white px-6 py-2 rounded-lg transition-colors"
+        >
+          Combinar Colores
+        </button>
+        {combinedColor && (
+          <div className="mt-8 text-center">
+            <label className="block text-sm font-medium text-gray-300 mb-2">Color Combinado</label>
+            <div className="w-24 h-24 mx-auto rounded-full border-2 border-gray-600" style={{ backgroundColor: combinedColor }} />
+            <div className="mt-2 font-mono text-white">{combinedColor.toUpperCase()}</div>
+          </div>
+        )}
+
+        {/* Expresión CSS */}
+        <div className="flex items-center space-x-2">
+          <code className="text-xs font-mono text-gray-300 bg-gray-900 px-3 py-2 rounded flex-1 break-all">
+            {expression}
+          </code>
+          <button
+            onClick={() => copyExpression(expression)}
+            className="p-2 text-gray-400 hover:text-white transition-colors flex-shrink-0"
+            title="Copiar color-mix()"
+          >
+            {copiedExpression === expression ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+          </button>
+        </div>
+
+        {/* Secuencia de mezcla entre los dos primeros colores */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Secuencia de mezcla (Color 1 → Color 2): {blendSteps} pasos
+          </label>
+          <input
+            type="range"
+            min="3"
+            max="12"
+            value={blendSteps}
+            onChange={(e) => setBlendSteps(parseInt(e.target.value))}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer mb-3"
+          />
+          <div className="flex rounded-lg overflow-hidden">
+            {blendSequence.map((hex, i) => {
+              const stepExpression = getColorMixExpression(
+                [colors[0], colors[1]],
+                [100 - (i / (blendSteps - 1)) * 100, (i / (blendSteps - 1)) * 100],
+                space
+              );
+              return (
+                <button
+                  key={i}
+                  onClick={() => copyExpression(stepExpression)}
+                  className="flex-1 h-16 flex items-end justify-center pb-1 group"
+                  style={{ backgroundColor: hex }}
+                  title={stepExpression}
+                >
+                  <span className="text-[10px] font-mono bg-black/60 text-white px-1 rounded opacity-0 group-hover:opacity-100 transition-opacity">
+                    {copiedExpression === stepExpression ? '✔' : hex.toUpperCase()}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+      {history.length > 0 && (
+        <div className="mt-12">
+          <h3 className="text-lg font-semibold text-white mb-4 text-center">Historial de Combinaciones</h3>
+          <div className="relative mb-4">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Buscar por nombre o color..."
+              value={historySearch}
+              onChange={(e) => setHistorySearch(e.target.value)}
+              className="w-full bg-gray-900 border border-gray-600 rounded-lg pl-10 pr-4 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+            />
+          </div>
+          {filteredHistory.length === 0 && (
+            <p className="text-sm text-gray-500 text-center">No hay combinaciones que coincidan.</p>
+          )}
+          <div className="flex flex-col space-y-4">
+            {filteredHistory.map((combo) => (
+              <div key={combo.id} className="flex items-center justify-between bg-gray-700 rounded-lg p-4">
+                <div className="flex items-center space-x-4 w-full">
+                  {combo.colors.map((color, colorIdx) => (
+                    <React.Fragment key={colorIdx}>
+                      {colorIdx > 0 && <span className="text-white">+</span>}
+                      <div className="flex flex-col items-center flex-1">
+                        <span className="text-xs text-gray-300 mb-1">Color {colorIdx + 1}</span>
+                        <div className="w-8 h-8 rounded" style={{ backgroundColor: color }} />
+                        <span className="text-xs font-mono text-gray-400 mt-1">{color.toUpperCase()}</span>
+                      </div>
+                    </React.Fragment>
+                  ))}
+                  <span className="text-white">=</span>
+                  <div className="flex flex-col items-center flex-1">
+                    <span className="text-xs text-gray-300 mb-1">Resultado</span>
+                    <div className="w-8 h-8 rounded border-2 border-white" style={{ backgroundColor: combo.result }} />
+                    <span className="text-xs font-mono text-gray-400 mt-1">{combo.result.toUpperCase()}</span>
+                    <span className="text-[10px] text-gray-400">{combo.space}</span>
+                  </div>
+                </div>
+                <div className="flex flex-col items-end ml-4">
+                  {/* Editar/agregar nombre */}
+                  {editingId === combo.id ? (
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={editingName}
+                        onChange={e => setEditingName(e.target.value)}
+                        onBlur={() => handleSaveName(combo.id)}
+                        onKeyDown={e => { if (e.key === 'Enter') handleSaveName(combo.id); }}
+                        className="w-32 p-1 text-gray-900 rounded bg-gray-100 text-xs focus:outline-none focus:ring"
+                        autoFocus
+                      />
+                      <button onClick={() => handleSaveName(combo.id)} className="text-purple-300 hover:text-white text-lg">✔</button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <span className="text-xs font-semibold text-purple-200">
+                        {combo.name ? combo.name : <span className="italic text-gray-400">Sin nombre</span>}
+                      </span>
+                      <button onClick={() => handleStartEditName(combo)} className="text-gray-300 hover:text-white text-lg">✎</button>
+                    </div>
+                  )}
+                  {/* Guardar en la biblioteca / crear paleta */}
+                  <div className="flex items-center space-x-1 mt-2">
+                    <button
+                      className="p-1 text-green-400 hover:text-green-300 rounded"
+                      title="Guardar el resultado en mis colores"
+                      onClick={() => onSaveToLibrary(combo)}
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                    <button
+                      className="p-1 text-purple-300 hover:text-white rounded"
+                      title="Crear una paleta con esta combinación"
+                      onClick={() => onCreatePalette(combo)}
+                    >
+                      <FolderPlus className="w-4 h-4" />
+                    </button>
+                    {/* Borrar */}
+                    <button
+                      className="px-2 py-1 text-xs text-red-400 hover:text-red-300 rounded"
+                      title="Eliminar esta combinación"
+                      onClick={() => onDeleteCombination(combo.id)}
+                    >
+                      🗑
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
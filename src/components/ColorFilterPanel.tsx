@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { X, Tag } from 'lucide-react';
+import { ColorFilters } from '../types/color';
+import { defaultColorFilters, getNearColor } from '../utils/filterUtils';
+import { parseTags } from '../utils/tagUtils';
+
+interface ColorFilterPanelProps {
+  filters: ColorFilters;
+  availableTags: string[];
+  onChange: (filters: ColorFilters) => void;
+  matchingCount: number;
+  onBulkTag: (tags: string[], mode: 'add' | 'remove') => void;
+}
+
+interface RangeSliderProps {
+  label: string;
+  unit: string;
+  max: number;
+  value: [number, number];
+  trackStyle: React.CSSProperties;
+  onChange: (value: [number, number]) => void;
+}
+
+const RangeSlider: React.FC<RangeSliderProps> = ({ label, unit, max, value, trackStyle, onChange }) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-300 mb-1">
+      {label}: {value[0]}{unit} – {value[1]}{unit}
+    </label>
+    <div className="h-2 rounded-full mb-2" style={trackStyle} />
+    <div className="flex space-x-2">
+      <input
+        type="range"
+        min="0"
+        max={max}
+        value={value[0]}
+        onChange={(e) => onChange([parseInt(e.target.value), value[1]])}
+        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+        title="Minimum"
+      />
+      <input
+        type="range"
+        min="0"
+        max={max}
+        value={value[1]}
+        onChange={(e) => onChange([value[0], parseInt(e.target.value)])}
+        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+        title="Maximum"
+      />
+    </div>
+  </div>
+);
+
+export const ColorFilterPanel: React.FC<ColorFilterPanelProps> = ({
+  filters,
+  availableTags,
+  onChange,
+  matchingCount,
+  onBulkTag
+}) => {
+  const [bulkTags, setBulkTags] = useState('');
+  const update = (changes: Partial<ColorFilters>) => onChange({ ...filters, ...changes });
+  const nearColor = getNearColor(filters);
+
+  const toggleTag = (tag: string) => {
+    update({
+      tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag]
+    });
+  };
+
+  const applyBulkTags = (mode: 'add' | 'remove') => {
+    const tags = parseTags(bulkTags);
+    if (tags.length === 0) return;
+    onBulkTag(tags, mode);
+    setBulkTags('');
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Filters</h3>
+        <button
+          onClick={() => onChange(defaultColorFilters)}
+          className="flex items-center space-x-1 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          <X className="w-4 h-4" />
+          <span>Reset</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <RangeSlider
+          label="Hue"
+          unit="°"
+          max={360}
+          value={filters.hueRange}
+          trackStyle={{ background: 'linear-gradient(to right, #f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00)' }}
+          onChange={(hueRange) => update({ hueRange })}
+        />
+        <RangeSlider
+          label="Saturation"
+          unit="%"
+          max={100}
+          value={filters.saturationRange}
+          trackStyle={{ background: 'linear-gradient(to right, #808080, #8b5cf6)' }}
+          onChange={(saturationRange) => update({ saturationRange })}
+        />
+        <RangeSlider
+          label="Lightness"
+          unit="%"
+          max={100}
+          value={filters.lightnessRange}
+          trackStyle={{ background: 'linear-gradient(to right, #000, #8b5cf6, #fff)' }}
+          onChange={(lightnessRange) => update({ lightnessRange })}
+        />
+      </div>
+      {filters.hueRange[0] > filters.hueRange[1] && (
+        <p className="text-xs text-gray-500">
+          The hue range wraps around 0°, e.g. 330° – 30° matches reds.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">Close to</label>
+          <div className="flex items-center space-x-2">
+            <div
+              className="w-9 h-9 rounded-lg border border-gray-600 flex-shrink-0"
+              style={{ backgroundColor: nearColor || 'transparent' }}
+            />
+            <input
+              type="text"
+              value={filters.nearHex}
+              onChange={(e) => update({ nearHex: e.target.value })}
+              placeholder="#3b82f6, rgb(59 130 246)..."
+              className={`flex-1 bg-gray-900 border rounded-lg px-3 py-2 text-sm font-mono text-white focus:outline-none ${
+                filters.nearHex.trim() && !nearColor ? 'border-red-500' : 'border-gray-600 focus:border-purple-500'
+              }`}
+            />
+          </div>
+          <label className="block text-xs text-gray-400 mt-2 mb-1">
+            Within ΔE {filters.maxDistance}
+          </label>
+          <input
+            type="range"
+            min="1"
+            max="50"
+            value={filters.maxDistance}
+            onChange={(e) => update({ maxDistance: parseInt(e.target.value) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">Tags</label>
+          {availableTags.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {availableTags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                    filters.tags.includes(tag)
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No colors are tagged yet.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="pt-4 border-t border-gray-700">
+        <label className="block text-sm font-medium text-gray-300 mb-1">
+          Bulk tag the {matchingCount} color{matchingCount === 1 ? '' : 's'} shown
+        </label>
+        <div className="flex items-center space-x-2">
+          <div className="relative flex-1 max-w-sm">
+            <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={bulkTags}
+              onChange={(e) => setBulkTags(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && applyBulkTags('add')}
+              placeholder="brand, dark-mode"
+              className="w-full bg-gray-900 border border-gray-600 rounded-lg pl-10 pr-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+            />
+          </div>
+          <button
+            onClick={() => applyBulkTags('add')}
+            disabled={!bulkTags.trim() || matchingCount === 0}
+            className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors text-sm"
+          >
+            Add
+          </button>
+          <button
+            onClick={() => applyBulkTags('remove')}
+            disabled={!bulkTags.trim() || matchingCount === 0}
+            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors text-sm"
+          >
+            Remove
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,28 +1,96 @@
-import React, { useState } from 'react';
-import { Palette, Zap, Shuffle, Plus } from 'lucide-react';
-import { Color } from '../types/color';
-import { generateColorVariations, generateComplementaryColors, hexToRgb, rgbToHsl } from '../utils/colorUtils';
+import React, { useState, useEffect } from 'react';
+import { Palette, Zap, Shuffle, Plus, FolderPlus, BarChart3, Save, ImagePlus, Blend } from 'lucide-react';
+import { Color, ColorPalette, HarmonyOptions, ImageExtractOptions, ScaleOptions, VisionMode } from '../types/color';
+import { generateColorVariations, createColor, generateId } from '../utils/colorUtils';
+import { generateColorScale, defaultScaleOptions } from '../utils/scaleUtils';
+import { generateHarmony, defaultHarmonyOptions } from '../utils/harmonyUtils';
+import { nameColors } from '../utils/colorNames';
+import { loadImage, getImagePixels, extractPalette, defaultImageExtractOptions } from '../utils/imageUtils';
+import { simulateColorVision } from '../utils/visionUtils';
 import { ColorPicker } from './ColorPicker';
 import { ColorCard } from './ColorCard';
+import { ScaleOptionsPanel } from './ScaleOptionsPanel';
+import { HarmonyOptionsPanel } from './HarmonyOptionsPanel';
+import { HueWheel } from './HueWheel';
+import { ImageExtractPanel } from './ImageExtractPanel';
 
 interface ColorGeneratorProps {
   onAddColors: (colors: Color[]) => void;
+  palettes?: ColorPalette[];
+  onAddToPalette?: (paletteId: string, colors: Color[]) => void;
+  onCreatePalette?: (name: string, colors: Color[]) => void;
+  onCreateGradient?: (colors: Color[]) => void;
+  visionMode?: VisionMode;
 }
 
-export const ColorGenerator: React.FC<ColorGeneratorProps> = ({ onAddColors }) => {
+export const ColorGenerator: React.FC<ColorGeneratorProps> = ({
+  onAddColors,
+  palettes = [],
+  onAddToPalette,
+  onCreatePalette,
+  onCreateGradient,
+  visionMode = 'normal'
+}) => {
   const [baseColor, setBaseColor] = useState('#6366f1');
-  const [generationType, setGenerationType] = useState<'variations' | 'harmony'>('variations');
+  const [generationType, setGenerationType] = useState<'variations' | 'harmony' | 'scale' | 'image'>('variations');
   const [generatedColors, setGeneratedColors] = useState<Color[]>([]);
+  const [targetPaletteId, setTargetPaletteId] = useState('');
+  const [scaleName, setScaleName] = useState('Primary');
+  const [scaleOptions, setScaleOptions] = useState<ScaleOptions>(defaultScaleOptions);
+  const [harmonyOptions, setHarmonyOptions] = useState<HarmonyOptions>(defaultHarmonyOptions);
+  const [newPaletteName, setNewPaletteName] = useState('');
+  const [image, setImage] = useState<{ url: string; name: string } | null>(null);
+  const [imageOptions, setImageOptions] = useState<ImageExtractOptions>(defaultImageExtractOptions);
+  const [imageError, setImageError] = useState('');
+  // Pixel share per generated color id, only set for colors extracted from an image
+  const [pixelShares, setPixelShares] = useState<Record<string, number>>({});
+
+  // Release the previous image when it is replaced and the current one when the generator unmounts
+  const imageUrl = image?.url;
+  useEffect(() => {
+    return () => {
+      if (imageUrl) URL.revokeObjectURL(imageUrl);
+    };
+  }, [imageUrl]);
+
+  const changeImage = (file: File) => {
+    setImage({ url: URL.createObjectURL(file), name: file.name.replace(/\.[^.]+$/, '') });
+    setImageError('');
+  };
+
+  const extractImageColors = async () => {
+    if (!image) return;
+    try {
+      const pixels = getImagePixels(await loadImage(image.url));
+      const extracted = extractPalette(pixels, imageOptions);
+      const colors = nameColors(extracted.map(entry => createColor(entry.hex, entry.hex, generateId())));
+      setPixelShares(Object.fromEntries(colors.map((color, i) => [color.id, extracted[i].share])));
+      setGeneratedColors(colors);
+      setNewPaletteName(image.name);
+      setImageError(colors.length === 0 ? 'No opaque pixels were found in the image' : '');
+    } catch (error) {
+      setImageError(error instanceof Error ? error.message : 'The image could not be processed');
+    }
+  };
 
   const generateColors = () => {
+    if (generationType === 'image') {
+      extractImageColors();
+      return;
+    }
+
     let colors: Color[] = [];
     
     if (generationType === 'variations') {
-      colors = generateColorVariations(baseColor);
+      colors = nameColors(generateColorVariations(baseColor));
+    } else if (generationType === 'scale') {
+      colors = generateColorScale(baseColor, scaleName.trim() || 'Scale', scaleOptions);
+      setNewPaletteName(scaleName.trim() || 'Scale');
     } else {
-      colors = generateComplementaryColors(baseColor);
+      colors = nameColors(generateHarmony(baseColor, harmonyOptions));
     }
     
+    setPixelShares({});
     setGeneratedColors(colors);
   };
 
@@ -37,6 +105,19 @@ export const ColorGenerator: React.FC<ColorGeneratorProps> = ({ onAddColors }) =
     onAddColors([color]);
   };
 
+  const addAllToPalette = () => {
+    if (onAddToPalette && targetPaletteId && generatedColors.length > 0) {
+      onAddToPalette(targetPaletteId, generatedColors);
+    }
+  };
+
+  const saveAsPalette = () => {
+    if (onCreatePalette && newPaletteName.trim() && generatedColors.length > 0) {
+      onCreatePalette(newPaletteName.trim(), generatedColors);
+      setNewPaletteName('');
+    }
+  };
+
   const presetColors = [
     '#ff6b9d', '#4ecdc4', '#45b7d1', '#f9ca24', '#a55eea', '#ff7675',
     '#fd79a8', '#00b894', '#0984e3', '#fdcb6e', '#6c5ce7', '#e84393'
@@ -105,15 +186,72 @@ export const ColorGenerator: React.FC<ColorGeneratorProps> = ({ onAddColors }) =
               <Shuffle className="w-4 h-4" />
               <span>Color Harmony</span>
             </button>
+            <button
+              onClick={() => setGenerationType('scale')}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-lg border transition-colors ${
+                generationType === 'scale'
+                  ? 'bg-purple-600 border-purple-500 text-white'
+                  : 'bg-gray-700 border-gray-600 text-gray-300 hover:border-gray-500'
+              }`}
+            >
+              <BarChart3 className="w-4 h-4" />
+              <span>Tint & Shade Scale</span>
+            </button>
+            <button
+              onClick={() => setGenerationType('image')}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-lg border transition-colors ${
+                generationType === 'image'
+                  ? 'bg-purple-600 border-purple-500 text-white'
+                  : 'bg-gray-700 border-gray-600 text-gray-300 hover:border-gray-500'
+              }`}
+            >
+              <ImagePlus className="w-4 h-4" />
+              <span>From Image</span>
+            </button>
           </div>
         </div>
 
+        {generationType === 'harmony' && (
+          <div className="flex flex-col md:flex-row md:items-start gap-6 bg-gray-900 border border-gray-700 rounded-lg p-4">
+            <HueWheel
+              baseColor={baseColor}
+              colors={generateHarmony(baseColor, harmonyOptions)}
+              space={harmonyOptions.space}
+            />
+            <div className="flex-1">
+              <HarmonyOptionsPanel options={harmonyOptions} onChange={setHarmonyOptions} />
+            </div>
+          </div>
+        )}
+
+        {generationType === 'scale' && (
+          <ScaleOptionsPanel
+            name={scaleName}
+            options={scaleOptions}
+            onNameChange={setScaleName}
+            onChange={setScaleOptions}
+          />
+        )}
+
+        {generationType === 'image' && (
+          <div className="space-y-2">
+            <ImageExtractPanel
+              imageUrl={image?.url ?? null}
+              options={imageOptions}
+              onImageChange={changeImage}
+              onChange={setImageOptions}
+            />
+            {imageError && <p className="text-sm text-red-400">{imageError}</p>}
+          </div>
+        )}
+
         {/* Generate Button */}
         <button
           onClick={generateColors}
-          className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-300 transform hover:scale-105"
+          disabled={generationType === 'image' && !image}
+          className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
         >
-          Generate Colors
+          {generationType === 'image' ? 'Extract Colors' : 'Generate Colors'}
         </button>
 
         {/* Generated Colors */}
@@ -123,14 +261,83 @@ export const ColorGenerator: React.FC<ColorGeneratorProps> = ({ onAddColors }) =
               <h3 className="text-lg font-semibold text-white">
                 Generated Colors ({generatedColors.length})
               </h3>
-              <button
-                onClick={addAllColors}
-                className="flex items-center space-x-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
-              >
-                <Plus className="w-4 h-4" />
-                <span>Add All</span>
-              </button>
+              <div className="flex items-center space-x-3">
+                {onAddToPalette && palettes.length > 0 && (
+                  <div className="flex items-center space-x-2">
+                    <select
+                      value={targetPaletteId}
+                      onChange={(e) => setTargetPaletteId(e.target.value)}
+                      className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+                    >
+                      <option value="">Choose palette...</option>
+                      {palettes.map(palette => (
+                        <option key={palette.id} value={palette.id}>{palette.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={addAllToPalette}
+                      disabled={!targetPaletteId}
+                      className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors"
+                    >
+                      <FolderPlus className="w-4 h-4" />
+                      <span>Add to Palette</span>
+                    </button>
+                  </div>
+                )}
+                <button
+                  onClick={addAllColors}
+                  className="flex items-center space-x-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Add All</span>
+                </button>
+              </div>
             </div>
+
+            {/* Ramp Preview & Save As Palette */}
+            <div className="flex rounded-lg overflow-hidden h-12 mb-4">
+              {generatedColors.map(color => (
+                <div
+                  key={color.id}
+                  className="flex-1"
+                  style={{ backgroundColor: simulateColorVision(color.hex, visionMode), flexGrow: pixelShares[color.id] ?? 1 }}
+                  title={`${color.name} ${color.hex.toUpperCase()}`}
+                />
+              ))}
+            </div>
+            {(onCreatePalette || onCreateGradient) && (
+              <div className="flex items-center space-x-2 mb-4">
+                {onCreatePalette && (
+                  <>
+                    <input
+                      type="text"
+                      value={newPaletteName}
+                      onChange={(e) => setNewPaletteName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && saveAsPalette()}
+                      placeholder="New palette name..."
+                      className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+                    />
+                    <button
+                      onClick={saveAsPalette}
+                      disabled={!newPaletteName.trim()}
+                      className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors text-sm"
+                    >
+                      <Save className="w-4 h-4" />
+                      <span>Save as Palette</span>
+                    </button>
+                  </>
+                )}
+                {onCreateGradient && generatedColors.length >= 2 && (
+                  <button
+                    onClick={() => onCreateGradient(generatedColors)}
+                    className="flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors text-sm"
+                  >
+                    <Blend className="w-4 h-4" />
+                    <span>Make Gradient</span>
+                  </button>
+                )}
+              </div>
+            )}
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {generatedColors.map((color) => (
@@ -139,7 +346,19 @@ export const ColorGenerator: React.FC<ColorGeneratorProps> = ({ onAddColors }) =
                     color={color}
                     onToggleFavorite={() => {}}
                     showActions={false}
+                    visionMode={visionMode}
                   />
+                  {pixelShares[color.id] !== undefined && (
+                    <div className="mt-2 flex items-center space-x-2 text-xs text-gray-400">
+                      <div className="flex-1 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                        <div
+                          className="h-full rounded-full"
+                          style={{ width: `${pixelShares[color.id] * 100}%`, backgroundColor: color.hex }}
+                        />
+                      </div>
+                      <span className="font-mono">{(pixelShares[color.id] * 100).toFixed(1)}% of pixels</span>
+                    </div>
+                  )}
                   <button
                     onClick={() => addSingleColor(color)}
                     className="absolute top-2 right-2 bg-green-600 hover:bg-green-700 text-white p-2 rounded-lg transition-colors opacity-0 group-hover:opacity-100"
@@ -1,176 +1,444 @@
-import React, { useState, useCallback } from 'react';
-import { Pipette, Palette, Shuffle } from 'lucide-react';
-import { hexToRgb, rgbToHsl, hslToRgb, rgbToHex } from '../utils/colorUtils';
+import React, { useState, useEffect, useRef } from 'react';
+import { Pipette, Shuffle } from 'lucide-react';
+import { hexToRgb, rgbToHex, rgbToHsv, hsvToRgb, rgbToOklch, oklchToRgb, toHex8, checkerboardStyle, swatchStyle } from '../utils/colorUtils';
+import { parseColorInput } from '../utils/colorNames';
+import { useRecentColors } from '../hooks/useRecentColors';
 
 interface ColorPickerProps {
   color: string;
   onChange: (color: string) => void;
+  // The alpha slider is only shown when the caller stores an alpha value
+  alpha?: number;
+  onAlphaChange?: (alpha: number) => void;
   className?: string;
 }
 
-export const ColorPicker: React.FC<ColorPickerProps> = ({ color, onChange, className = '' }) => {
+type Hsv = { h: number; s: number; v: number };
+
+// Chromium-only for now; https://developer.mozilla.org/docs/Web/API/EyeDropper
+interface EyeDropperApi {
+  open: () => Promise<{ sRGBHex: string }>;
+}
+
+const getEyeDropper = () =>
+  (window as unknown as { EyeDropper?: new () => EyeDropperApi }).EyeDropper;
+
+const hsvFromHex = (hex: string): Hsv => {
+  const rgb = hexToRgb(hex);
+  return rgbToHsv(rgb.r, rgb.g, rgb.b);
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Pointer position inside the element as 0-1 fractions; captures the pointer so drags can leave the element
+const dragHandlers = (onMove: (x: number, y: number) => void) => {
+  const update = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onMove(clamp01((e.clientX - rect.left) / rect.width), clamp01((e.clientY - rect.top) / rect.height));
+  };
+
+  return {
+    onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      update(e);
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => {
+      if (e.currentTarget.hasPointerCapture(e.pointerId)) update(e);
+    }
+  };
+};
+
+// Arrow keys nudge a value by one step, ten with shift
+const arrowStep = (e: React.KeyboardEvent, keys: [string, string]): number => {
+  const step = e.shiftKey ? 10 : 1;
+  if (e.key === keys[0]) return -step;
+  if (e.key === keys[1]) return step;
+  return 0;
+};
+
+export const ColorPicker: React.FC<ColorPickerProps> = ({
+  color,
+  onChange,
+  alpha = 1,
+  onAlphaChange,
+  className = ''
+}) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [sliderSpace, setSliderSpace] = useState<'hsb' | 'oklch'>('hsb');
+  // Hue and saturation are kept separately so they survive passing through black, white or gray
+  const [hsv, setHsv] = useState<Hsv>(() => hsvFromHex(color));
+  const [syncedColor, setSyncedColor] = useState(color);
+  const [draft, setDraft] = useState<string | null>(null);
+  const { recentColors, addRecentColor } = useRecentColors();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const openedWith = useRef(color);
+
+  // The color was changed from outside (preset, reset, another picker)
+  if (color !== syncedColor) {
+    setSyncedColor(color);
+    setHsv(hsvFromHex(color));
+  }
+
   const rgb = hexToRgb(color);
-  const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
+  const oklch = rgbToOklch(rgb.r, rgb.g, rgb.b);
+  const hasAlpha = !!onAlphaChange;
+
+  const emit = (hex: string, nextHsv: Hsv = hsvFromHex(hex)) => {
+    setHsv(nextHsv);
+    setSyncedColor(hex);
+    onChange(hex);
+  };
 
-  const handleHslChange = useCallback((h: number, s: number, l: number) => {
-    const newRgb = hslToRgb(h, s, l);
-    const newHex = rgbToHex(newRgb.r, newRgb.g, newRgb.b);
-    onChange(newHex);
-  }, [onChange]);
+  const handleHsvChange = (next: Hsv) => {
+    const newRgb = hsvToRgb(next.h, next.s, next.v);
+    emit(rgbToHex(newRgb.r, newRgb.g, newRgb.b), next);
+  };
+
+  const handleOklchChange = (l: number, c: number, h: number) => {
+    const newRgb = oklchToRgb(l, c, h);
+    emit(rgbToHex(newRgb.r, newRgb.g, newRgb.b));
+  };
+
+  const handleRgbChange = (channel: 'r' | 'g' | 'b', value: string) => {
+    const newRgb = { ...rgb, [channel]: Math.max(0, Math.min(255, parseInt(value) || 0)) };
+    emit(rgbToHex(newRgb.r, newRgb.g, newRgb.b));
+  };
+
+  const handleTextChange = (value: string) => {
+    setDraft(value);
+    const parsed = parseColorInput(value);
+    if (!parsed) return;
+    emit(parsed.hex);
+    onAlphaChange?.(parsed.alpha);
+  };
 
   const generateRandomColor = () => {
     const randomHex = '#' + Math.floor(Math.random()*16777215).toString(16).padStart(6, '0');
-    onChange(randomHex);
+    emit(randomHex);
+  };
+
+  const pickFromScreen = async () => {
+    const EyeDropper = getEyeDropper();
+    if (!EyeDropper) return;
+    try {
+      const result = await new EyeDropper().open();
+      const parsed = parseColorInput(result.sRGBHex);
+      if (parsed) {
+        emit(parsed.hex);
+        addRecentColor(parsed.hex);
+      }
+    } catch {
+      // The user pressed Escape
+    }
   };
 
+  const open = () => {
+    openedWith.current = color;
+    setIsOpen(true);
+  };
+
+  // Only colors the user settled on go into the recent list, not every step of a drag
+  const close = () => {
+    setIsOpen(false);
+    setDraft(null);
+    if (color !== openedWith.current) addRecentColor(color);
+  };
+
+  const closeRef = useRef(close);
+  closeRef.current = close;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) closeRef.current();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') closeRef.current();
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const areaDrag = dragHandlers((x, y) => handleHsvChange({ h: hsv.h, s: x * 100, v: (1 - y) * 100 }));
+  const hueDrag = dragHandlers(x => handleHsvChange({ ...hsv, h: x * 360 }));
+  const alphaDrag = dragHandlers(x => onAlphaChange?.(Math.round(x * 100) / 100));
+
+  const displayValue = toHex8(color, hasAlpha ? alpha : 1).toUpperCase();
+  const isInvalid = draft !== null && !parseColorInput(draft);
+  const canUseEyeDropper = !!getEyeDropper();
+  const pureHue = `hsl(${hsv.h}, 100%, 50%)`;
+
   return (
-    <div className={`relative ${className}`}>
+    <div ref={containerRef} className={`relative ${className}`}>
       <button
-        onClick={() => setIsOpen(!isOpen)}
+        onClick={() => (isOpen ? close() : open())}
         className="flex items-center space-x-2 bg-gray-800 hover:bg-gray-700 px-4 py-2 rounded-lg border border-gray-600 transition-colors"
       >
-        <div 
-          className="w-6 h-6 rounded border-2 border-gray-500"
-          style={{ backgroundColor: color }}
-        />
+        <div className="w-6 h-6 rounded border-2 border-gray-500" style={swatchStyle(displayValue)} />
         <Pipette className="w-4 h-4 text-gray-400" />
-        <span className="text-sm font-mono text-gray-300">{color.toUpperCase()}</span>
+        <span className="text-sm font-mono text-gray-300">{displayValue}</span>
       </button>
 
       {isOpen && (
-        <div className="absolute top-full left-0 mt-2 bg-gray-800 border border-gray-600 rounded-lg p-4 shadow-xl z-50 min-w-80">
+        <div className="absolute top-full left-0 mt-2 bg-gray-800 border border-gray-600 rounded-lg p-4 shadow-xl z-50 w-80">
           <div className="space-y-4">
             {/* Color Preview */}
             <div className="flex items-center justify-between">
-              <div 
-                className="w-16 h-16 rounded-lg border-2 border-gray-600"
-                style={{ backgroundColor: color }}
-              />
-              <button
-                onClick={generateRandomColor}
-                className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 px-3 py-2 rounded-lg transition-colors"
-              >
-                <Shuffle className="w-4 h-4" />
-                <span className="text-sm">Random</span>
-              </button>
+              <div className="w-16 h-16 rounded-lg border-2 border-gray-600" style={swatchStyle(displayValue)} />
+              <div className="flex space-x-2">
+                {canUseEyeDropper && (
+                  <button
+                    onClick={pickFromScreen}
+                    className="flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg transition-colors"
+                    title="Pick a color from the screen"
+                  >
+                    <Pipette className="w-4 h-4" />
+                    <span className="text-sm">Pick</span>
+                  </button>
+                )}
+                <button
+                  onClick={generateRandomColor}
+                  className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 px-3 py-2 rounded-lg transition-colors"
+                >
+                  <Shuffle className="w-4 h-4" />
+                  <span className="text-sm">Random</span>
+                </button>
+              </div>
             </div>
 
-            {/* Hex Input */}
+            {/* Text Input */}
             <div>
-              <label className="block text-sm font-medium text-gray-300 mb-1">HEX</label>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Color</label>
               <input
                 type="text"
-                value={color}
-                onChange={(e) => {
-                  const value = e.target.value;
-                  if (/^#[0-9A-Fa-f]{0,6}$/.test(value)) {
-                    onChange(value);
-                  }
-                }}
-                className="w-full bg-gray-900 border border-gray-600 rounded px-3 py-2 text-sm font-mono text-white focus:border-purple-500 focus:outline-none"
-                placeholder="#000000"
+                value={draft ?? displayValue}
+                onChange={(e) => handleTextChange(e.target.value)}
+                onFocus={(e) => e.target.select()}
+                onBlur={() => setDraft(null)}
+                onKeyDown={(e) => e.key === 'Enter' && setDraft(null)}
+                className={`w-full bg-gray-900 border rounded px-3 py-2 text-sm font-mono text-white focus:outline-none ${
+                  isInvalid ? 'border-red-500' : 'border-gray-600 focus:border-purple-500'
+                }`}
+                placeholder="#6366f1, rgb(99 102 241), hsl(239 84% 67%), indigo"
+                spellCheck={false}
               />
+              {isInvalid && (
+                <p className="text-xs text-red-400 mt-1">Not a color this picker understands yet</p>
+              )}
             </div>
 
-            {/* HSL Sliders */}
-            <div className="space-y-3">
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-1">
-                  Hue: {hsl.h}°
-                </label>
-                <input
-                  type="range"
-                  min="0"
-                  max="360"
-                  value={hsl.h}
-                  onChange={(e) => handleHslChange(parseInt(e.target.value), hsl.s, hsl.l)}
-                  className="w-full h-2 bg-gradient-to-r from-red-500 via-yellow-500 via-green-500 via-cyan-500 via-blue-500 via-purple-500 to-red-500 rounded-lg appearance-none cursor-pointer"
-                />
+            {/* Picker Mode */}
+            <div className="flex space-x-2">
+              {(['hsb', 'oklch'] as const).map(space => (
+                <button
+                  key={space}
+                  onClick={() => setSliderSpace(space)}
+                  className={`px-3 py-1 rounded text-xs font-medium uppercase transition-colors ${
+                    sliderSpace === space
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {space}
+                </button>
+              ))}
+            </div>
+
+            {/* Saturation / Brightness Area and Hue Strip */}
+            {sliderSpace === 'hsb' ? (
+              <div className="space-y-3">
+                <div
+                  {...areaDrag}
+                  tabIndex={0}
+                  role="slider"
+                  aria-label="Saturation and brightness"
+                  aria-valuetext={`Saturation ${Math.round(hsv.s)}%, brightness ${Math.round(hsv.v)}%`}
+                  onKeyDown={(e) => {
+                    const ds = arrowStep(e, ['ArrowLeft', 'ArrowRight']);
+                    const dv = -arrowStep(e, ['ArrowUp', 'ArrowDown']);
+                    if (!ds && !dv) return;
+                    e.preventDefault();
+                    handleHsvChange({
+                      h: hsv.h,
+                      s: Math.max(0, Math.min(100, hsv.s + ds)),
+                      v: Math.max(0, Math.min(100, hsv.v + dv))
+                    });
+                  }}
+                  className="relative h-40 rounded-lg cursor-crosshair touch-none focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  style={{ background: `linear-gradient(to top, #000, transparent), linear-gradient(to right, #fff, ${pureHue})` }}
+                >
+                  <div
+                    className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white shadow pointer-events-none"
+                    style={{ left: `${hsv.s}%`, top: `${100 - hsv.v}%`, backgroundColor: color }}
+                  />
+                </div>
+
+                <div
+                  {...hueDrag}
+                  tabIndex={0}
+                  role="slider"
+                  aria-label="Hue"
+                  aria-valuemin={0}
+                  aria-valuemax={360}
+                  aria-valuenow={Math.round(hsv.h)}
+                  onKeyDown={(e) => {
+                    const dh = arrowStep(e, ['ArrowLeft', 'ArrowRight']);
+                    if (!dh) return;
+                    e.preventDefault();
+                    handleHsvChange({ ...hsv, h: (hsv.h + dh + 360) % 360 });
+                  }}
+                  className="relative h-3 rounded-full cursor-pointer touch-none focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  style={{ background: 'linear-gradient(to right, #f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00)' }}
+                >
+                  <div
+                    className="absolute top-1/2 w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white shadow pointer-events-none"
+                    style={{ left: `${hsv.h / 3.6}%`, backgroundColor: pureHue }}
+                  />
+                </div>
+
+                <div className="flex justify-between text-xs font-mono text-gray-400">
+                  <span>H {Math.round(hsv.h)}°</span>
+                  <span>S {Math.round(hsv.s)}%</span>
+                  <span>B {Math.round(hsv.v)}%</span>
+                </div>
               </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-1">
-                  Saturation: {hsl.s}%
-                </label>
-                <input
-                  type="range"
-                  min="0"
-                  max="100"
-                  value={hsl.s}
-                  onChange={(e) => handleHslChange(hsl.h, parseInt(e.target.value), hsl.l)}
-                  className="w-full h-2 bg-gradient-to-r from-gray-500 to-current rounded-lg appearance-none cursor-pointer"
-                  style={{ color: `hsl(${hsl.h}, 100%, 50%)` }}
-                />
+            ) : (
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Lightness: {(oklch.l * 100).toFixed(1)}%
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.005"
+                    value={oklch.l}
+                    onChange={(e) => handleOklchChange(parseFloat(e.target.value), oklch.c, oklch.h)}
+                    className="w-full h-2 rounded-lg appearance-none cursor-pointer"
+                    style={{ background: `linear-gradient(to right, oklch(0 ${oklch.c} ${oklch.h}), oklch(1 ${oklch.c} ${oklch.h}))` }}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Chroma: {oklch.c.toFixed(3)}
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="0.37"
+                    step="0.001"
+                    value={oklch.c}
+                    onChange={(e) => handleOklchChange(oklch.l, parseFloat(e.target.value), oklch.h)}
+                    className="w-full h-2 rounded-lg appearance-none cursor-pointer"
+                    style={{ background: `linear-gradient(to right, oklch(${oklch.l} 0 ${oklch.h}), oklch(${oklch.l} 0.37 ${oklch.h}))` }}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Hue: {Math.round(oklch.h)}°
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="360"
+                    value={oklch.h}
+                    onChange={(e) => handleOklchChange(oklch.l, oklch.c, parseInt(e.target.value))}
+                    className="w-full h-2 rounded-lg appearance-none cursor-pointer"
+                    style={{
+                      background: `linear-gradient(to right, ${[0, 60, 120, 180, 240, 300, 360]
+                        .map(h => `oklch(${oklch.l} ${oklch.c} ${h})`)
+                        .join(', ')})`
+                    }}
+                  />
+                </div>
               </div>
-              
+            )}
+
+            {/* Alpha Strip */}
+            {hasAlpha && (
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">
-                  Lightness: {hsl.l}%
+                  Alpha: {Math.round(alpha * 100)}%
                 </label>
-                <input
-                  type="range"
-                  min="0"
-                  max="100"
-                  value={hsl.l}
-                  onChange={(e) => handleHslChange(hsl.h, hsl.s, parseInt(e.target.value))}
-                  className="w-full h-2 bg-gradient-to-r from-black via-current to-white rounded-lg appearance-none cursor-pointer"
-                  style={{ color: `hsl(${hsl.h}, ${hsl.s}%, 50%)` }}
-                />
+                <div
+                  {...alphaDrag}
+                  tabIndex={0}
+                  role="slider"
+                  aria-label="Alpha"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(alpha * 100)}
+                  onKeyDown={(e) => {
+                    const da = arrowStep(e, ['ArrowLeft', 'ArrowRight']);
+                    if (!da) return;
+                    e.preventDefault();
+                    onAlphaChange(Math.max(0, Math.min(100, Math.round(alpha * 100) + da)) / 100);
+                  }}
+                  className="relative h-3 rounded-full cursor-pointer touch-none focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  style={checkerboardStyle}
+                >
+                  <div
+                    className="absolute inset-0 rounded-full"
+                    style={{ background: `linear-gradient(to right, transparent, ${color})` }}
+                  />
+                  <div
+                    className="absolute top-1/2 w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white shadow pointer-events-none"
+                    style={{ left: `${alpha * 100}%`, backgroundColor: color }}
+                  />
+                </div>
               </div>
-            </div>
+            )}
 
             {/* RGB Inputs */}
             <div className="grid grid-cols-3 gap-2">
+              {([
+                { key: 'r', label: 'R', focus: 'focus:border-red-500' },
+                { key: 'g', label: 'G', focus: 'focus:border-green-500' },
+                { key: 'b', label: 'B', focus: 'focus:border-blue-500' }
+              ] as const).map(({ key, label, focus }) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">{label}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="255"
+                    value={rgb[key]}
+                    onChange={(e) => handleRgbChange(key, e.target.value)}
+                    className={`w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-white focus:outline-none ${focus}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {/* Recent Colors */}
+            {recentColors.length > 0 && (
               <div>
-                <label className="block text-sm font-medium text-gray-300 mb-1">R</label>
-                <input
-                  type="number"
-                  min="0"
-                  max="255"
-                  value={rgb.r}
-                  onChange={(e) => {
-                    const newRgb = { ...rgb, r: parseInt(e.target.value) || 0 };
-                    const newHex = rgbToHex(newRgb.r, newRgb.g, newRgb.b);
-                    onChange(newHex);
-                  }}
-                  className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-white focus:border-red-500 focus:outline-none"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-1">G</label>
-                <input
-                  type="number"
-                  min="0"
-                  max="255"
-                  value={rgb.g}
-                  onChange={(e) => {
-                    const newRgb = { ...rgb, g: parseInt(e.target.value) || 0 };
-                    const newHex = rgbToHex(newRgb.r, newRgb.g, newRgb.b);
-                    onChange(newHex);
-                  }}
-                  className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-white focus:border-green-500 focus:outline-none"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-1">B</label>
-                <input
-                  type="number"
-                  min="0"
-                  max="255"
-                  value={rgb.b}
-                  onChange={(e) => {
-                    const newRgb = { ...rgb, b: parseInt(e.target.value) || 0 };
-                    const newHex = rgbToHex(newRgb.r, newRgb.g, newRgb.b);
-                    onChange(newHex);
-                  }}
-                  className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-white focus:border-blue-500 focus:outline-none"
-                />
+                <label className="block text-sm font-medium text-gray-300 mb-2">Recent</label>
+                <div className="flex flex-wrap gap-2">
+                  {recentColors.map(recent => (
+                    <button
+                      key={recent}
+                      onClick={() => emit(recent)}
+                      className={`w-6 h-6 rounded border-2 transition-all ${
+                        recent === color ? 'border-white scale-110' : 'border-gray-600 hover:border-gray-400'
+                      }`}
+                      style={{ backgroundColor: recent }}
+                      title={recent.toUpperCase()}
+                    />
+                  ))}
+                </div>
               </div>
-            </div>
+            )}
           </div>
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { FileCode, Copy, Check, Download } from 'lucide-react';
+import { Color, ColorPalette, ExportFormat } from '../types/color';
+import { exportFormats, exportColorsAs, downloadFile } from '../utils/exportUtils';
+
+interface ExportPanelProps {
+  colors: Color[];
+  palettes: ColorPalette[];
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ colors, palettes }) => {
+  const [source, setSource] = useState('library');
+  const [format, setFormat] = useState<ExportFormat>('tailwind');
+  const [copied, setCopied] = useState(false);
+
+  const selectedPalette = palettes.find(palette => palette.id === source);
+  const sourceColors = selectedPalette ? selectedPalette.colors : colors;
+  const sourceName = selectedPalette ? selectedPalette.name : 'colors';
+  const formatInfo = exportFormats.find(f => f.key === format)!;
+  const output = exportColorsAs(sourceColors, format, sourceName);
+
+  const isBinary = typeof output !== 'string';
+
+  const copyToClipboard = async () => {
+    if (typeof output !== 'string') return;
+    try {
+      await navigator.clipboard.writeText(output);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <FileCode className="w-6 h-6 text-purple-400" />
+        <h2 className="text-xl font-bold text-white">Export Design Tokens</h2>
+      </div>
+
+      <div className="space-y-6">
+        {/* Source Selection */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-3">
+            Source
+          </label>
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            className="bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-purple-500 focus:outline-none"
+          >
+            <option value="library">Whole library ({colors.length} colors)</option>
+            {palettes.map(palette => (
+              <option key={palette.id} value={palette.id}>
+                Palette: {palette.name} ({palette.colors.length} colors)
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Format Selection */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-3">
+            Format
+          </label>
+          <div className="flex flex-wrap gap-3">
+            {exportFormats.map(({ key, label }) => (
+              <button
+                key={key}
+                onClick={() => setFormat(key)}
+                className={`px-4 py-2 rounded-lg border transition-colors ${
+                  format === key
+                    ? 'bg-purple-600 border-purple-500 text-white'
+                    : 'bg-gray-700 border-gray-600 text-gray-300 hover:border-gray-500'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-sm font-medium text-gray-300 font-mono">
+              {formatInfo.fileName}
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={copyToClipboard}
+                disabled={sourceColors.length === 0 || isBinary}
+                className="flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-2 rounded-lg transition-colors text-sm"
+              >
+                {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+                <span>Copy</span>
+              </button>
+              <button
+                onClick={() => downloadFile(output, formatInfo.fileName, formatInfo.mimeType)}
+                disabled={sourceColors.length === 0}
+                className="flex items-center space-x-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-2 rounded-lg transition-colors text-sm"
+              >
+                <Download className="w-4 h-4" />
+                <span>Download</span>
+              </button>
+            </div>
+          </div>
+          {sourceColors.length > 0 && isBinary ? (
+            <div className="bg-gray-900 border border-gray-700 rounded-lg p-4 text-sm text-gray-400">
+              Binary swatch file with {sourceColors.length} color{sourceColors.length === 1 ? '' : 's'} ({output.length} bytes). Download it to open in your design tool.
+            </div>
+          ) : sourceColors.length > 0 ? (
+            <pre className="bg-gray-900 border border-gray-700 rounded-lg p-4 text-xs font-mono text-gray-300 overflow-auto max-h-96">
+              {output}
+            </pre>
+          ) : (
+            <p className="text-sm text-gray-500">
+              There are no colors to export in this source.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
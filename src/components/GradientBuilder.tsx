@@ -0,0 +1,464 @@
+import React, { useRef, useState } from 'react';
+import { Blend, Plus, Trash2, Copy, Check, Save, X } from 'lucide-react';
+import { Color, Gradient, GradientStop } from '../types/color';
+import { getColorHex8, splitHexAlpha, toHex8, checkerboardStyle, swatchStyle } from '../utils/colorUtils';
+import {
+  gradientTypes,
+  gradientInterpolations,
+  createGradient,
+  createGradientStop,
+  getColorAt,
+  getGradientCss,
+  getGradientDeclaration,
+  supportsOklchInterpolation
+} from '../utils/gradientUtils';
+import { ColorPicker } from './ColorPicker';
+
+interface GradientBuilderProps {
+  gradients: Gradient[];
+  libraryColors: Color[];
+  // Colors sent over from the generator; a new key starts a new gradient from them
+  seed?: { key: number; colors: Color[] } | null;
+  onCreateGradient: (gradient: Gradient) => void;
+  onUpdateGradient: (id: string, update: (gradient: Gradient) => Gradient) => void;
+  onDeleteGradient: (id: string) => void;
+}
+
+const clampPercent = (value: number) => Math.max(0, Math.min(100, value));
+
+const draftFrom = (colors: Color[]) =>
+  createGradient('', colors.length >= 2 ? colors.map(getColorHex8) : ['#6366f1', '#ec4899']);
+
+export const GradientBuilder: React.FC<GradientBuilderProps> = ({
+  gradients,
+  libraryColors,
+  seed,
+  onCreateGradient,
+  onUpdateGradient,
+  onDeleteGradient
+}) => {
+  const [draft, setDraft] = useState<Gradient>(() => draftFrom(seed?.colors ?? libraryColors.slice(0, 2)));
+  const [seedKey, setSeedKey] = useState(seed?.key);
+  const [selectedStopId, setSelectedStopId] = useState<string | null>(null);
+  // Library colors picked to start a gradient, in the order they were clicked
+  const [startIds, setStartIds] = useState<string[]>([]);
+  const [copied, setCopied] = useState(false);
+  const [oklchSupported] = useState(supportsOklchInterpolation);
+  const barRef = useRef<HTMLDivElement>(null);
+
+  if (seed && seed.key !== seedKey) {
+    setSeedKey(seed.key);
+    setDraft(draftFrom(seed.colors));
+    setSelectedStopId(null);
+  }
+
+  const saved = gradients.find(g => g.id === draft.id);
+  const selectedStop = draft.stops.find(stop => stop.id === selectedStopId) ?? draft.stops[0];
+
+  const update = (change: Partial<Gradient>) => {
+    setDraft(prev => ({ ...prev, ...change }));
+  };
+
+  const updateStop = (id: string, change: Partial<GradientStop>) => {
+    setDraft(prev => ({
+      ...prev,
+      stops: prev.stops.map(stop => stop.id === id ? { ...stop, ...change } : stop)
+    }));
+  };
+
+  const removeStop = (id: string) => {
+    if (draft.stops.length <= 2) return;
+    setDraft(prev => ({ ...prev, stops: prev.stops.filter(stop => stop.id !== id) }));
+    setSelectedStopId(null);
+  };
+
+  const positionOnBar = (clientX: number) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    return clampPercent(((clientX - rect.left) / rect.width) * 100);
+  };
+
+  // Clicking empty track adds a stop with the color the gradient already has there
+  const addStopAt = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget) return;
+    const position = positionOnBar(e.clientX);
+    const stop = createGradientStop(getColorAt(draft.stops, position, draft.interpolation), position);
+    setDraft(prev => ({ ...prev, stops: [...prev.stops, stop] }));
+    setSelectedStopId(stop.id);
+  };
+
+  const stopHandlers = (stop: GradientStop) => ({
+    onPointerDown: (e: React.PointerEvent<HTMLButtonElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setSelectedStopId(stop.id);
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLButtonElement>) => {
+      if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+      updateStop(stop.id, { position: Math.round(positionOnBar(e.clientX) * 10) / 10 });
+    },
+    onKeyDown: (e: React.KeyboardEvent<HTMLButtonElement>) => {
+      const step = e.shiftKey ? 10 : 1;
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+        e.preventDefault();
+        updateStop(stop.id, { position: clampPercent(stop.position + (e.key === 'ArrowLeft' ? -step : step)) });
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        removeStop(stop.id);
+      }
+    }
+  });
+
+  // Dragging on the preview aims a linear gradient or moves the center of the others
+  const aimAt = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = clampPercent(((e.clientX - rect.left) / rect.width) * 100);
+    const y = clampPercent(((e.clientY - rect.top) / rect.height) * 100);
+    if (draft.type === 'linear') {
+      const angle = Math.atan2(x - 50, 50 - y) * 180 / Math.PI;
+      update({ angle: Math.round((angle + 360) % 360) });
+    } else {
+      update({ center: { x: Math.round(x), y: Math.round(y) } });
+    }
+  };
+
+  const startFromLibrary = () => {
+    const picked = startIds
+      .map(id => libraryColors.find(color => color.id === id))
+      .filter((color): color is Color => !!color);
+    if (picked.length < 2) return;
+    setDraft(draftFrom(picked));
+    setSelectedStopId(null);
+    setStartIds([]);
+  };
+
+  const toggleStartColor = (id: string) => {
+    setStartIds(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+  };
+
+  const save = () => {
+    if (!draft.name.trim()) return;
+    const next = { ...draft, name: draft.name.trim(), ...(!saved && { createdAt: new Date() }) };
+    if (saved) {
+      onUpdateGradient(draft.id, () => next);
+    } else {
+      onCreateGradient(next);
+    }
+    // Keeps the draft identical to the stored gradient until it is edited again
+    setDraft(next);
+  };
+
+  // Browsers without `in oklch` get the smoothed sRGB version, which is what the CSS falls back to
+  const previewCss = (gradient: Gradient) => oklchSupported || gradient.interpolation === 'srgb'
+    ? getGradientCss(gradient)
+    : getGradientCss({ ...gradient, smooth: true }, 'srgb');
+
+  const declaration = getGradientDeclaration(draft);
+
+  const copyCss = async () => {
+    try {
+      await navigator.clipboard.writeText(declaration);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const selectedColor = splitHexAlpha(selectedStop.color);
+
+  return (
+    <div className="space-y-6">
+      {/* Start From Library */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center space-x-2">
+          <Blend className="w-5 h-5" />
+          <span>Gradients</span>
+        </h2>
+        {libraryColors.length > 0 ? (
+          <>
+            <p className="text-sm text-gray-400 mb-3">
+              Pick two or more library colors in the order they should appear, or send generated colors here from the Generator tab.
+            </p>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {libraryColors.map(color => {
+                const order = startIds.indexOf(color.id);
+                return (
+                  <button
+                    key={color.id}
+                    onClick={() => toggleStartColor(color.id)}
+                    className={`relative w-9 h-9 rounded-lg border-2 transition-colors ${
+                      order >= 0 ? 'border-purple-500' : 'border-gray-700 hover:border-gray-500'
+                    }`}
+                    style={swatchStyle(getColorHex8(color))}
+                    title={`${color.name} ${getColorHex8(color).toUpperCase()}`}
+                  >
+                    {order >= 0 && (
+                      <span className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-purple-600 text-white text-xs flex items-center justify-center">
+                        {order + 1}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+            <button
+              onClick={startFromLibrary}
+              disabled={startIds.length < 2}
+              className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-6 py-2 rounded-lg transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Start Gradient ({startIds.length} colors)</span>
+            </button>
+          </>
+        ) : (
+          <p className="text-sm text-gray-400">
+            Add colors to your library or send generated colors here from the Generator tab to start from them.
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {/* Preview & Stops */}
+        <div className="bg-gray-800 rounded-xl border border-gray-700 p-6 space-y-4">
+          <div className="rounded-lg overflow-hidden" style={checkerboardStyle}>
+            <div
+              className="relative h-64 cursor-crosshair touch-none"
+              style={{ background: previewCss(draft) }}
+              onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                aimAt(e);
+              }}
+              onPointerMove={(e) => {
+                if (e.currentTarget.hasPointerCapture(e.pointerId)) aimAt(e);
+              }}
+            >
+              {draft.type !== 'linear' && (
+                <div
+                  className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white shadow pointer-events-none"
+                  style={{ left: `${draft.center.x}%`, top: `${draft.center.y}%` }}
+                />
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div
+              ref={barRef}
+              onClick={addStopAt}
+              className="relative h-8 rounded cursor-copy"
+              style={{ background: previewCss({ ...draft, type: 'linear', angle: 90 }) }}
+              title="Click to add a stop"
+            >
+              {draft.stops.map(stop => (
+                <button
+                  key={stop.id}
+                  {...stopHandlers(stop)}
+                  className={`absolute top-1/2 w-4 h-10 -ml-2 -translate-y-1/2 rounded border-2 touch-none cursor-ew-resize ${
+                    stop.id === selectedStop.id ? 'border-purple-400 ring-2 ring-purple-500/50' : 'border-white'
+                  }`}
+                  style={{ left: `${stop.position}%`, ...swatchStyle(stop.color) }}
+                  title={`${stop.color.toUpperCase()} at ${stop.position}%`}
+                />
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-3">
+              Drag stops to move them, click the bar to add one. Arrow keys nudge the selected stop, Delete removes it.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Stop Color</label>
+              <ColorPicker
+                color={selectedColor.hex}
+                onChange={(hex) => updateStop(selectedStop.id, { color: toHex8(hex, selectedColor.alpha) })}
+                alpha={selectedColor.alpha}
+                onAlphaChange={(alpha) => updateStop(selectedStop.id, { color: toHex8(selectedColor.hex, alpha) })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Position (%)</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                value={selectedStop.position}
+                onChange={(e) => updateStop(selectedStop.id, { position: clampPercent(parseFloat(e.target.value) || 0) })}
+                className="w-24 bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white focus:border-purple-500 focus:outline-none"
+              />
+            </div>
+            <button
+              onClick={() => removeStop(selectedStop.id)}
+              disabled={draft.stops.length <= 2}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg text-gray-300 bg-gray-700 hover:bg-gray-600 hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title={draft.stops.length <= 2 ? 'A gradient needs at least two stops' : 'Remove stop'}
+            >
+              <X className="w-4 h-4" />
+              <span>Remove Stop</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Settings & Output */}
+        <div className="bg-gray-800 rounded-xl border border-gray-700 p-6 space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Type</label>
+            <div className="flex space-x-2">
+              {gradientTypes.map(({ key, label }) => (
+                <button
+                  key={key}
+                  onClick={() => update({ type: key })}
+                  className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                    draft.type === key ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {draft.type !== 'radial' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                {draft.type === 'linear' ? 'Angle' : 'Start Angle'}: {draft.angle}°
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="360"
+                value={draft.angle}
+                onChange={(e) => update({ angle: parseInt(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+          )}
+
+          {draft.type !== 'linear' && (
+            <div className="grid grid-cols-2 gap-4">
+              {(['x', 'y'] as const).map(axis => (
+                <div key={axis}>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Center {axis.toUpperCase()}: {draft.center[axis]}%
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    value={draft.center[axis]}
+                    onChange={(e) => update({ center: { ...draft.center, [axis]: parseInt(e.target.value) } })}
+                    className="w-full accent-purple-500"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Interpolation</label>
+            <div className="flex items-center space-x-2">
+              {gradientInterpolations.map(({ key, label }) => (
+                <button
+                  key={key}
+                  onClick={() => update({ interpolation: key })}
+                  className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                    draft.interpolation === key ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center space-x-2 mt-3 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={draft.smooth}
+                onChange={(e) => update({ smooth: e.target.checked })}
+                className="accent-purple-500"
+              />
+              <span>Smooth: add OKLCH midpoints to avoid the gray dead zone</span>
+            </label>
+            {draft.interpolation === 'oklch' && !oklchSupported && (
+              <p className="text-xs text-yellow-400 mt-2">
+                This browser does not support `in oklch`; the preview shows the smoothed sRGB fallback.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-300">CSS</label>
+              <button
+                onClick={copyCss}
+                className="flex items-center space-x-1 text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+                <span>{copied ? 'Copied' : 'Copy'}</span>
+              </button>
+            </div>
+            <pre className="bg-gray-900 border border-gray-700 rounded-lg p-4 text-xs text-gray-300 font-mono whitespace-pre-wrap break-all">
+              {declaration}
+            </pre>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => update({ name: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && save()}
+              placeholder="Gradient name..."
+              className="flex-1 bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+            />
+            <button
+              onClick={save}
+              disabled={!draft.name.trim() || saved === draft}
+              className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors text-sm"
+            >
+              <Save className="w-4 h-4" />
+              <span>{saved ? 'Update Gradient' : 'Save Gradient'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Saved Gradients */}
+      {gradients.length > 0 && (
+        <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Saved Gradients ({gradients.length})</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {gradients.map(gradient => (
+              <div
+                key={gradient.id}
+                className={`rounded-lg border overflow-hidden ${
+                  gradient.id === draft.id ? 'border-purple-500' : 'border-gray-700'
+                }`}
+              >
+                <button
+                  onClick={() => {
+                    setDraft(gradient);
+                    setSelectedStopId(null);
+                  }}
+                  className="block w-full"
+                  style={checkerboardStyle}
+                  title="Edit gradient"
+                >
+                  <div className="h-20" style={{ background: previewCss(gradient) }} />
+                </button>
+                <div className="flex items-center justify-between px-3 py-2 bg-gray-900">
+                  <span className="text-sm text-white truncate">{gradient.name}</span>
+                  <button
+                    onClick={() => onDeleteGradient(gradient.id)}
+                    className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+                    title="Delete gradient"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { HarmonyOptions } from '../types/color';
+import { harmonySchemes, parseAngles } from '../utils/harmonyUtils';
+
+interface HarmonyOptionsPanelProps {
+  options: HarmonyOptions;
+  onChange: (options: HarmonyOptions) => void;
+}
+
+const SCHEMES_WITH_SPREAD = ['analogous', 'split-complementary', 'rectangle', 'analogous-shades'];
+
+export const HarmonyOptionsPanel: React.FC<HarmonyOptionsPanelProps> = ({ options, onChange }) => {
+  const [anglesText, setAnglesText] = useState(options.customAngles.join(', '));
+
+  const update = (changes: Partial<HarmonyOptions>) => {
+    onChange({ ...options, ...changes });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-1">Scheme</label>
+        <select
+          value={options.scheme}
+          onChange={(e) => update({ scheme: e.target.value as HarmonyOptions['scheme'] })}
+          className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+        >
+          {harmonySchemes.map(({ key, label }) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {SCHEMES_WITH_SPREAD.includes(options.scheme) && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">
+            Angle Spread: {options.spread}°
+          </label>
+          <input
+            type="range"
+            min="5"
+            max="90"
+            value={options.spread}
+            onChange={(e) => update({ spread: parseInt(e.target.value) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+
+      {options.scheme === 'custom' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">
+            Hue Offsets (degrees)
+          </label>
+          <input
+            type="text"
+            value={anglesText}
+            onChange={(e) => {
+              setAnglesText(e.target.value);
+              update({ customAngles: parseAngles(e.target.value) });
+            }}
+            placeholder="0, 45, 200"
+            className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-sm font-mono text-white focus:border-purple-500 focus:outline-none"
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">
+            Lightness Variation: ±{options.lightnessVariation}
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="30"
+            value={options.lightnessVariation}
+            onChange={(e) => update({ lightnessVariation: parseInt(e.target.value) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">
+            {options.space === 'oklch' ? 'Chroma' : 'Saturation'} Variation: ±{options.saturationVariation}
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="50"
+            value={options.saturationVariation}
+            onChange={(e) => update({ saturationVariation: parseInt(e.target.value) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-1">Color Space</label>
+        <div className="flex space-x-2">
+          {([
+            { key: 'hsl', label: 'HSL' },
+            { key: 'oklch', label: 'OKLCH (perceptual)' }
+          ] as const).map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => update({ space: key })}
+              className={`px-3 py-1 rounded text-sm transition-colors ${
+                options.space === key
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
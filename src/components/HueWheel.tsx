@@ -0,0 +1,59 @@
+import React from 'react';
+import { Color, HarmonyOptions } from '../types/color';
+import { getWheelPosition } from '../utils/harmonyUtils';
+
+interface HueWheelProps {
+  baseColor: string;
+  colors: Color[];
+  space: HarmonyOptions['space'];
+  size?: number;
+}
+
+const WHEEL_STOPS = [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330, 360];
+
+export const HueWheel: React.FC<HueWheelProps> = ({ baseColor, colors, space, size = 200 }) => {
+  const ringColor = (hue: number) => space === 'oklch'
+    ? `oklch(0.72 0.15 ${hue})`
+    : `hsl(${hue}, 100%, 50%)`;
+
+  // Hue 0 at the top, increasing clockwise like the conic gradient
+  const toPoint = (hex: string) => {
+    const { angle, radius } = getWheelPosition(hex, space);
+    const rad = angle * Math.PI / 180;
+    const r = radius * (size / 2 - 12);
+    return {
+      left: size / 2 + r * Math.sin(rad),
+      top: size / 2 - r * Math.cos(rad)
+    };
+  };
+
+  const basePoint = toPoint(baseColor);
+
+  return (
+    <div
+      className="relative rounded-full flex-shrink-0"
+      style={{
+        width: size,
+        height: size,
+        background: `radial-gradient(circle, #6b7280 0%, transparent 70%), conic-gradient(${WHEEL_STOPS.map(ringColor).join(', ')})`
+      }}
+    >
+      {colors.map(color => {
+        const point = toPoint(color.hex);
+        return (
+          <div
+            key={color.id}
+            className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white shadow-lg"
+            style={{ left: point.left, top: point.top, backgroundColor: color.hex }}
+            title={`${color.name} ${color.hex.toUpperCase()}`}
+          />
+        );
+      })}
+      <div
+        className="absolute w-7 h-7 -ml-3.5 -mt-3.5 rounded-full border-4 border-gray-900 ring-2 ring-white shadow-lg"
+        style={{ left: basePoint.left, top: basePoint.top, backgroundColor: baseColor }}
+        title={`Base ${baseColor.toUpperCase()}`}
+      />
+    </div>
+  );
+};
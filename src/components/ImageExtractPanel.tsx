@@ -0,0 +1,106 @@
+import React, { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { ImageExtractOptions } from '../types/color';
+
+interface ImageExtractPanelProps {
+  imageUrl: string | null;
+  options: ImageExtractOptions;
+  onImageChange: (file: File) => void;
+  onChange: (options: ImageExtractOptions) => void;
+}
+
+export const ImageExtractPanel: React.FC<ImageExtractPanelProps> = ({ imageUrl, options, onImageChange, onChange }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (file?: File) => {
+    if (file && file.type.startsWith('image/')) {
+      onImageChange(file);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-gray-900 border border-gray-700 rounded-lg p-4">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={`flex flex-col items-center justify-center h-48 rounded-lg border-2 border-dashed cursor-pointer overflow-hidden transition-colors ${
+          isDragging ? 'border-purple-500 bg-purple-900/20' : 'border-gray-600 hover:border-gray-500'
+        }`}
+      >
+        {imageUrl ? (
+          <img src={imageUrl} alt="Source" className="max-h-full max-w-full object-contain" />
+        ) : (
+          <>
+            <Upload className="w-8 h-8 text-gray-500 mb-2" />
+            <span className="text-sm text-gray-400">Drop a screenshot, logo or mockup</span>
+            <span className="text-xs text-gray-500">or click to choose a file</span>
+          </>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">
+            Colors: {options.count}
+          </label>
+          <input
+            type="range"
+            min="2"
+            max="16"
+            value={options.count}
+            onChange={(e) => onChange({ ...options, count: parseInt(e.target.value) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">Quantization</label>
+          <div className="flex space-x-2">
+            {([
+              { key: 'kmeans', label: 'K-means' },
+              { key: 'median-cut', label: 'Median cut' }
+            ] as const).map(({ key, label }) => (
+              <button
+                key={key}
+                onClick={() => onChange({ ...options, method: key })}
+                className={`px-3 py-1 rounded text-sm transition-colors ${
+                  options.method === key
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          The image is processed in your browser and never uploaded.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Download, AlertTriangle, X } from 'lucide-react';
+import { ImportPreview, ImportStrategy, LibraryData } from '../types/color';
+import { mergeLibraryData, EXPORT_VERSION } from '../utils/libraryData';
+
+interface ImportDialogProps {
+  preview: ImportPreview;
+  current: LibraryData;
+  onConfirm: (data: LibraryData) => void;
+  onCancel: () => void;
+}
+
+const strategies: { key: ImportStrategy; label: string; description: string }[] = [
+  { key: 'merge', label: 'Merge', description: 'Add everything from the file to your library' },
+  { key: 'skip-duplicate-hex', label: 'Merge, skip same hex', description: 'Skip colors whose hex value you already have' },
+  { key: 'skip-duplicate-id', label: 'Merge, skip same id', description: 'Skip items that were already imported from this file' },
+  { key: 'replace', label: 'Replace', description: 'Discard your current library and use the file instead' }
+];
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ preview, current, onConfirm, onCancel }) => {
+  const [strategy, setStrategy] = useState<ImportStrategy>('skip-duplicate-hex');
+
+  const { data, issues } = preview;
+  const fileError = issues.find(issue => issue.section === 'file');
+  const merged = mergeLibraryData(current, data, strategy);
+  const isEmpty = data.colors.length + data.palettes.length + data.combinations.length + data.themes.length + data.gradients.length === 0;
+
+  const sections: { key: keyof LibraryData; label: string }[] = [
+    { key: 'colors', label: 'Colors' },
+    { key: 'palettes', label: 'Palettes' },
+    { key: 'combinations', label: 'Combinations' },
+    { key: 'themes', label: 'Themes' },
+    { key: 'gradients', label: 'Gradients' }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 w-full max-w-2xl max-h-full overflow-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-3">
+            <Download className="w-6 h-6 text-blue-400" />
+            <div>
+              <h2 className="text-xl font-bold text-white">Import Preview</h2>
+              <p className="text-sm text-gray-400 font-mono">
+                {preview.fileName}
+                {preview.version > 0 && (
+                  <span className="ml-2">
+                    v{preview.version}
+                    {preview.version < EXPORT_VERSION && ` (migrated to v${EXPORT_VERSION})`}
+                  </span>
+                )}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {fileError ? (
+            <div className="p-4 rounded-lg bg-red-900/40 border border-red-600 text-red-200">
+              {fileError.message}
+            </div>
+          ) : (
+            <>
+              {/* Counts */}
+              <div className="grid grid-cols-3 gap-4">
+                {sections.map(({ key, label }) => (
+                  <div key={key} className="bg-gray-900 rounded-lg p-4 text-center">
+                    <div className="text-2xl font-bold text-white">{data[key].length}</div>
+                    <div className="text-xs text-gray-400">{label} in file</div>
+                    <div className="text-xs text-green-400 mt-1">
+                      +{merged[key].length - (strategy === 'replace' ? 0 : current[key].length)} after import
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {data.colors.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {data.colors.slice(0, 48).map(color => (
+                    <div
+                      key={color.id}
+                      className="w-6 h-6 rounded"
+                      style={{ backgroundColor: color.hex }}
+                      title={`${color.name} ${color.hex.toUpperCase()}`}
+                    />
+                  ))}
+                  {data.colors.length > 48 && (
+                    <span className="text-xs text-gray-400 self-center ml-2">+{data.colors.length - 48} more</span>
+                  )}
+                </div>
+              )}
+
+              {/* Strategy */}
+              <div className="space-y-2">
+                {strategies.map(({ key, label, description }) => (
+                  <label
+                    key={key}
+                    className={`flex items-start space-x-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                      strategy === key ? 'border-purple-500 bg-purple-900/20' : 'border-gray-700 hover:border-gray-600'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="import-strategy"
+                      checked={strategy === key}
+                      onChange={() => setStrategy(key)}
+                      className="mt-1"
+                    />
+                    <div>
+                      <div className={`text-sm font-medium ${key === 'replace' ? 'text-red-300' : 'text-white'}`}>{label}</div>
+                      <div className="text-xs text-gray-400">{description}</div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </>
+          )}
+
+          {/* Per-item problems */}
+          {!fileError && issues.length > 0 && (
+            <div className="p-4 rounded-lg bg-yellow-900/30 border border-yellow-700">
+              <div className="flex items-center space-x-2 text-yellow-200 font-medium mb-2">
+                <AlertTriangle className="w-4 h-4" />
+                <span>{issues.length} item{issues.length === 1 ? '' : 's'} will be skipped</span>
+              </div>
+              <ul className="text-xs text-yellow-100 space-y-1 max-h-40 overflow-auto">
+                {issues.map((issue, i) => (
+                  <li key={i}>
+                    {issue.section} {issue.index >= 0 ? `#${issue.index + 1}` : ''}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-700">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg text-gray-300 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(merged)}
+            disabled={!!fileError || isEmpty}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-6 py-2 rounded-lg transition-colors"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { StickyNote } from 'lucide-react';
+
+interface NoteEditorProps {
+  note: string;
+  placeholder: string;
+  onChange?: (note: string) => void;
+}
+
+export const NoteEditor: React.FC<NoteEditorProps> = ({ note, placeholder, onChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(note);
+
+  const save = () => {
+    if (onChange && draft.trim() !== note) {
+      onChange(draft.trim());
+    }
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            save();
+          }
+          if (e.key === 'Escape') {
+            setDraft(note);
+            setIsEditing(false);
+          }
+        }}
+        rows={2}
+        placeholder={placeholder}
+        className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:border-purple-500 focus:outline-none resize-none"
+        autoFocus
+      />
+    );
+  }
+
+  if (!onChange && !note) return null;
+
+  return (
+    <button
+      onClick={() => {
+        if (!onChange) return;
+        setDraft(note);
+        setIsEditing(true);
+      }}
+      className={`flex items-start space-x-1 text-left text-xs w-full ${
+        note ? 'text-gray-300' : 'text-gray-500 hover:text-gray-300'
+      } ${onChange ? '' : 'cursor-default'} transition-colors`}
+    >
+      <StickyNote className="w-3 h-3 mt-0.5 flex-shrink-0" />
+      <span className={note ? 'whitespace-pre-wrap' : 'italic'}>{note || placeholder}</span>
+    </button>
+  );
+};
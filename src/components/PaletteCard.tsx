@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { Heart, Copy, Edit2, Trash2, Plus, X, AlertTriangle, Share2, Check, LayoutDashboard } from 'lucide-react';
+import { Color, ColorPalette, ItemDetails, VisionMode } from '../types/color';
+import { getContrastColor, getColorHex8, compositeOver, toHex8, swatchStyle } from '../utils/colorUtils';
+import { visionModes, simulateColorVision, findConfusableColors } from '../utils/visionUtils';
+import { getShareUrl } from '../utils/shareUtils';
+import { TagEditor } from './TagEditor';
+import { NoteEditor } from './NoteEditor';
+
+interface PaletteCardProps {
+  palette: ColorPalette;
+  libraryColors: Color[];
+  onToggleFavorite: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onRename: (id: string, newName: string) => void;
+  onUpdateDetails: (id: string, details: ItemDetails) => void;
+  onAddColors: (id: string, colors: Color[]) => void;
+  onRemoveColor: (id: string, colorId: string) => void;
+  onReorderColors: (id: string, fromIndex: number, toIndex: number) => void;
+  onPreview?: (id: string) => void;
+  visionMode?: VisionMode;
+}
+
+export const PaletteCard: React.FC<PaletteCardProps> = ({
+  palette,
+  libraryColors,
+  onToggleFavorite,
+  onDuplicate,
+  onDelete,
+  onRename,
+  onUpdateDetails,
+  onAddColors,
+  onRemoveColor,
+  onReorderColors,
+  onPreview,
+  visionMode = 'normal'
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editName, setEditName] = useState(palette.name);
+  const [isPickingColors, setIsPickingColors] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const paletteColorIds = new Set(palette.colors.map(color => color.id));
+  const availableColors = libraryColors.filter(color => !paletteColorIds.has(color.id));
+
+  // Check only the active simulation, or every deficiency in normal vision
+  const checkedModes = visionMode === 'normal'
+    ? visionModes.filter(mode => mode.key !== 'normal')
+    : visionModes.filter(mode => mode.key === visionMode);
+  const confusableWarnings = checkedModes.flatMap(mode =>
+    findConfusableColors(palette.colors, mode.key).map(pair => ({ ...pair, mode: mode.label }))
+  );
+
+  const handleRename = () => {
+    if (editName.trim() && editName.trim() !== palette.name) {
+      onRename(palette.id, editName.trim());
+    } else {
+      setEditName(palette.name);
+    }
+    setIsEditing(false);
+  };
+
+  const copyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(palette));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      onReorderColors(palette.id, dragIndex, index);
+    }
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 overflow-hidden hover:border-gray-600 transition-all duration-300">
+      {/* Palette Header */}
+      <div className="flex items-center justify-between p-4">
+        {isEditing ? (
+          <input
+            type="text"
+            value={editName}
+            onChange={(e) => setEditName(e.target.value)}
+            onBlur={handleRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRename();
+              if (e.key === 'Escape') {
+                setEditName(palette.name);
+                setIsEditing(false);
+              }
+            }}
+            className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-white focus:border-purple-500 focus:outline-none flex-1"
+            autoFocus
+          />
+        ) : (
+          <div className="flex items-center space-x-2 flex-1 min-w-0">
+            <h3 className="font-semibold text-white truncate">{palette.name}</h3>
+            <span className="bg-gray-700 text-xs px-2 py-1 rounded-full text-gray-300">
+              {palette.colors.length}
+            </span>
+            <button
+              onClick={() => setIsEditing(true)}
+              className="p-1 text-gray-400 hover:text-white transition-colors"
+              title="Rename palette"
+            >
+              <Edit2 className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+
+        <div className="flex items-center space-x-1 ml-2">
+          <button
+            onClick={() => onToggleFavorite(palette.id)}
+            className={`p-2 rounded-lg transition-colors ${
+              palette.isFavorite ? 'text-red-400' : 'text-gray-400 hover:text-red-400'
+            }`}
+            title="Favorite"
+          >
+            <Heart className={`w-4 h-4 ${palette.isFavorite ? 'fill-current' : ''}`} />
+          </button>
+          <button
+            onClick={() => onDuplicate(palette.id)}
+            className="p-2 rounded-lg text-gray-400 hover:text-white transition-colors"
+            title="Duplicate palette"
+          >
+            <Copy className="w-4 h-4" />
+          </button>
+          {onPreview && (
+            <button
+              onClick={() => onPreview(palette.id)}
+              disabled={palette.colors.length === 0}
+              className="p-2 rounded-lg text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Preview on sample UI"
+            >
+              <LayoutDashboard className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={copyShareLink}
+            disabled={palette.colors.length === 0}
+            className="p-2 rounded-lg text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title="Copy share link"
+          >
+            {linkCopied ? <Check className="w-4 h-4 text-green-400" /> : <Share2 className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={() => onDelete(palette.id)}
+            className="p-2 rounded-lg text-gray-400 hover:text-red-400 transition-colors"
+            title="Delete palette"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="px-4 pb-3 space-y-2">
+        <TagEditor
+          tags={palette.tags || []}
+          onChange={tags => onUpdateDetails(palette.id, { tags })}
+        />
+        <NoteEditor
+          note={palette.note || ''}
+          placeholder="Add a note about where this palette is used"
+          onChange={note => onUpdateDetails(palette.id, { note })}
+        />
+      </div>
+
+      {/* Swatches (drag to reorder) */}
+      {palette.colors.length > 0 ? (
+        <div className="flex h-24">
+          {palette.colors.map((color, index) => (
+            <div
+              key={color.id}
+              draggable
+              onDragStart={(e) => {
+                // Firefox only starts a drag that carries data
+                e.dataTransfer.setData('text/plain', color.id);
+                e.dataTransfer.effectAllowed = 'move';
+                setDragIndex(index);
+              }}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(index);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={`flex-1 relative group cursor-move flex items-end justify-center pb-2 transition-opacity ${
+                dragIndex === index ? 'opacity-50' : ''
+              }`}
+              style={swatchStyle(toHex8(simulateColorVision(color.hex, visionMode), color.alpha ?? 1))}
+              title={`${color.name} ${getColorHex8(color).toUpperCase()}`}
+            >
+              <button
+                onClick={() => onRemoveColor(palette.id, color.id)}
+                className="absolute top-1 right-1 p-1 rounded bg-black/20 text-white hover:bg-red-500/80 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Remove from palette"
+              >
+                <X className="w-3 h-3" />
+              </button>
+              <span
+                className="text-[10px] font-mono opacity-0 group-hover:opacity-100 transition-opacity"
+                style={{ color: getContrastColor(compositeOver(toHex8(simulateColorVision(color.hex, visionMode), color.alpha ?? 1), '#ffffff')) }}
+              >
+                {getColorHex8(color).toUpperCase()}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="h-24 flex items-center justify-center border-y border-dashed border-gray-700 text-sm text-gray-500">
+          No colors in this palette yet
+        </div>
+      )}
+
+      {/* Color Vision Warnings */}
+      {confusableWarnings.length > 0 && (
+        <div className="mx-4 mt-4 p-3 rounded-lg bg-yellow-900/30 border border-yellow-700 text-xs text-yellow-200 space-y-1">
+          {confusableWarnings.map(({ first, second, mode, deltaE }) => (
+            <div key={`${mode}-${first.id}-${second.id}`} className="flex items-center space-x-2">
+              <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+              <span>
+                {first.name} and {second.name} are hard to tell apart with {mode.toLowerCase()} (ΔE {deltaE.toFixed(1)})
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add From Library */}
+      <div className="p-4">
+        <button
+          onClick={() => setIsPickingColors(!isPickingColors)}
+          className="flex items-center space-x-2 text-sm text-purple-400 hover:text-purple-300 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add colors from library</span>
+        </button>
+
+        {isPickingColors && (
+          <div className="mt-3">
+            {availableColors.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {availableColors.map(color => (
+                  <button
+                    key={color.id}
+                    onClick={() => onAddColors(palette.id, [color])}
+                    className="w-8 h-8 rounded-lg border-2 border-gray-600 hover:border-white transition-all"
+                    style={swatchStyle(getColorHex8(color))}
+                    title={`${color.name} ${getColorHex8(color).toUpperCase()}`}
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">
+                {libraryColors.length === 0
+                  ? 'Your library is empty. Add colors in the My Colors tab first.'
+                  : 'All library colors are already in this palette.'}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Palette, Plus, Heart } from 'lucide-react';
+import { Color, ColorPalette, ItemDetails, VisionMode } from '../types/color';
+import { PaletteCard } from './PaletteCard';
+
+interface PaletteManagerProps {
+  palettes: ColorPalette[];
+  libraryColors: Color[];
+  onCreatePalette: (name: string) => void;
+  onToggleFavorite: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onRename: (id: string, newName: string) => void;
+  onUpdateDetails: (id: string, details: ItemDetails) => void;
+  onAddColors: (id: string, colors: Color[]) => void;
+  onRemoveColor: (id: string, colorId: string) => void;
+  onReorderColors: (id: string, fromIndex: number, toIndex: number) => void;
+  onPreview?: (id: string) => void;
+  visionMode?: VisionMode;
+}
+
+export const PaletteManager: React.FC<PaletteManagerProps> = ({
+  palettes,
+  libraryColors,
+  onCreatePalette,
+  ...cardHandlers
+}) => {
+  const [newPaletteName, setNewPaletteName] = useState('');
+  const [filterFavorites, setFilterFavorites] = useState(false);
+
+  const visiblePalettes = filterFavorites
+    ? palettes.filter(palette => palette.isFavorite)
+    : palettes;
+
+  const createPalette = () => {
+    if (!newPaletteName.trim()) return;
+    onCreatePalette(newPaletteName.trim());
+    setNewPaletteName('');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Create Palette */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center space-x-2">
+          <Palette className="w-5 h-5" />
+          <span>My Palettes</span>
+        </h2>
+        <div className="flex items-end space-x-4">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Palette Name
+            </label>
+            <input
+              type="text"
+              value={newPaletteName}
+              onChange={(e) => setNewPaletteName(e.target.value)}
+              placeholder="Enter palette name..."
+              className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-purple-500 focus:outline-none"
+              onKeyDown={(e) => e.key === 'Enter' && createPalette()}
+            />
+          </div>
+          <button
+            onClick={createPalette}
+            disabled={!newPaletteName.trim()}
+            className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-6 py-2 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Create Palette</span>
+          </button>
+          <button
+            onClick={() => setFilterFavorites(!filterFavorites)}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-lg border transition-colors ${
+              filterFavorites
+                ? 'bg-red-600 border-red-500 text-white'
+                : 'bg-gray-800 border-gray-600 text-gray-300 hover:border-gray-500'
+            }`}
+          >
+            <Heart className={`w-4 h-4 ${filterFavorites ? 'fill-current' : ''}`} />
+            <span>Favorites</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Palettes Grid */}
+      {visiblePalettes.length > 0 ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {visiblePalettes.map(palette => (
+            <PaletteCard
+              key={palette.id}
+              palette={palette}
+              libraryColors={libraryColors}
+              {...cardHandlers}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <Palette className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-400 mb-2">
+            {palettes.length === 0 ? 'No palettes yet' : 'No favorite palettes'}
+          </h3>
+          <p className="text-gray-500">
+            {palettes.length === 0
+              ? 'Create a palette and fill it with colors from your library or the generator'
+              : 'Mark a palette as favorite to see it here'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React from 'react';
+import { ScaleOptions } from '../types/color';
+import { getScaleLabels } from '../utils/scaleUtils';
+
+interface ScaleOptionsPanelProps {
+  name: string;
+  options: ScaleOptions;
+  onNameChange: (name: string) => void;
+  onChange: (options: ScaleOptions) => void;
+}
+
+export const ScaleOptionsPanel: React.FC<ScaleOptionsPanelProps> = ({ name, options, onNameChange, onChange }) => {
+  const labels = getScaleLabels(options.steps);
+
+  const update = (changes: Partial<ScaleOptions>) => {
+    const next = { ...options, ...changes };
+    // A pinned step that no longer exists in the new step count falls back to auto
+    if (next.pinStep !== 'auto' && !getScaleLabels(next.steps).includes(next.pinStep)) {
+      next.pinStep = 'auto';
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-gray-900 border border-gray-700 rounded-lg p-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-1">Scale Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => onNameChange(e.target.value)}
+          placeholder="e.g. Primary"
+          className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-1">Pin Base Color To</label>
+        <select
+          value={options.pinStep}
+          onChange={(e) => update({ pinStep: e.target.value === 'auto' ? 'auto' : parseInt(e.target.value) })}
+          className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+        >
+          <option value="auto">Closest step (auto)</option>
+          {labels.map(label => (
+            <option key={label} value={label}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-1">
+          Steps: {options.steps}
+        </label>
+        <input
+          type="range"
+          min="5"
+          max="19"
+          value={options.steps}
+          onChange={(e) => update({ steps: parseInt(e.target.value) })}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-1">
+          Hue Shift: {options.hueShift}°
+        </label>
+        <input
+          type="range"
+          min="-60"
+          max="60"
+          value={options.hueShift}
+          onChange={(e) => update({ hueShift: parseInt(e.target.value) })}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+        />
+      </div>
+
+      <div className="md:col-span-2">
+        <label className="block text-sm font-medium text-gray-300 mb-1">Chroma Easing</label>
+        <div className="flex space-x-2">
+          {([
+            { key: 'none', label: 'Constant' },
+            { key: 'linear', label: 'Linear' },
+            { key: 'smooth', label: 'Smooth' }
+          ] as const).map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => update({ chromaEasing: key })}
+              className={`px-3 py-1 rounded text-sm transition-colors ${
+                options.chromaEasing === key
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Link2, X } from 'lucide-react';
+import { SharedPalette } from '../types/color';
+import { getContrastColor, compositeOver, swatchStyle, toHex8 } from '../utils/colorUtils';
+
+interface SharedPaletteDialogProps {
+  palette: SharedPalette | null;
+  onImport: (palette: SharedPalette) => void;
+  onClose: () => void;
+}
+
+export const SharedPaletteDialog: React.FC<SharedPaletteDialogProps> = ({ palette, onImport, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 w-full max-w-2xl max-h-full overflow-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-3">
+            <Link2 className="w-6 h-6 text-purple-400" />
+            <div>
+              <h2 className="text-xl font-bold text-white">{palette ? palette.name : 'Shared Palette'}</h2>
+              <p className="text-sm text-gray-400">Shared palette (read-only preview)</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {!palette ? (
+            <div className="p-4 rounded-lg bg-red-900/40 border border-red-600 text-red-200">
+              This palette link is broken or was created by a newer version of DevPalette.
+            </div>
+          ) : palette.colors.length === 0 ? (
+            <p className="text-sm text-gray-500">This palette has no colors.</p>
+          ) : (
+            <>
+              <div className="flex rounded-lg overflow-hidden h-24 mb-6">
+                {palette.colors.map((color, index) => {
+                  const hex8 = toHex8(color.hex, color.alpha ?? 1);
+                  return (
+                    <div
+                      key={index}
+                      className="flex-1 flex items-end justify-center pb-2"
+                      style={swatchStyle(hex8)}
+                      title={`${color.name} ${hex8.toUpperCase()}`}
+                    >
+                      <span className="text-[10px] font-mono" style={{ color: getContrastColor(compositeOver(hex8, '#ffffff')) }}>
+                        {hex8.toUpperCase()}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+              <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {palette.colors.map((color, index) => (
+                  <li key={index} className="flex items-center space-x-3 bg-gray-900 rounded-lg p-2">
+                    <span className="w-6 h-6 rounded flex-shrink-0" style={swatchStyle(toHex8(color.hex, color.alpha ?? 1))} />
+                    <span className="text-sm text-white truncate flex-1">{color.name}</span>
+                    <code className="text-xs font-mono text-gray-400">{toHex8(color.hex, color.alpha ?? 1).toUpperCase()}</code>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-gray-300 hover:text-white transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => palette && onImport(palette)}
+            disabled={!palette || palette.colors.length === 0}
+            className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-6 py-2 rounded-lg transition-colors"
+          >
+            Import into my library
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
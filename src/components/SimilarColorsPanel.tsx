@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { GitMerge, X } from 'lucide-react';
+import { Color } from '../types/color';
+import { getDeltaE, getColorHex8, swatchStyle } from '../utils/colorUtils';
+import { groupSimilarColors } from '../utils/duplicateUtils';
+
+interface SimilarColorsPanelProps {
+  colors: Color[];
+  onMerge: (merges: { keepId: string; mergeIds: string[] }[]) => void;
+  onClose: () => void;
+}
+
+export const SimilarColorsPanel: React.FC<SimilarColorsPanelProps> = ({ colors, onMerge, onClose }) => {
+  const [threshold, setThreshold] = useState(5);
+  // Chosen color to keep per group, keyed by the group's first color id
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+
+  const groups = useMemo(() => groupSimilarColors(colors, threshold), [colors, threshold]);
+
+  const keeperOf = (group: Color[]) => {
+    const chosen = keepers[group[0].id];
+    return group.find(color => color.id === chosen) || group[0];
+  };
+
+  const toMerge = (group: Color[]) => ({ keepId: keeperOf(group).id, mergeIds: group.map(color => color.id) });
+
+  const mergeAll = () => {
+    onMerge(groups.map(toMerge));
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <GitMerge className="w-5 h-5 text-purple-400" />
+          <h2 className="text-xl font-bold text-white">Similar Colors</h2>
+        </div>
+        <button onClick={onClose} className="p-2 text-gray-400 hover:text-white transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex-1 max-w-sm">
+          <label className="block text-sm font-medium text-gray-300 mb-1">
+            Threshold: ΔE {threshold}
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="20"
+            step="0.5"
+            value={threshold}
+            onChange={(e) => setThreshold(parseFloat(e.target.value))}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            0 finds exact duplicates; around 2 is barely noticeable side by side.
+          </p>
+        </div>
+        {groups.length > 1 && (
+          <button
+            onClick={mergeAll}
+            className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg transition-colors text-sm"
+          >
+            <GitMerge className="w-4 h-4" />
+            <span>Merge All ({groups.length})</span>
+          </button>
+        )}
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-gray-500">No colors within ΔE {threshold} of each other.</p>
+      ) : (
+        <div className="space-y-3">
+          {groups.map(group => {
+            const keeper = keeperOf(group);
+            return (
+              <div key={group[0].id} className="flex items-center justify-between bg-gray-900 rounded-lg p-3">
+                <div className="flex flex-wrap gap-3">
+                  {group.map(color => (
+                    <button
+                      key={color.id}
+                      onClick={() => setKeepers(prev => ({ ...prev, [group[0].id]: color.id }))}
+                      className={`flex items-center space-x-2 px-2 py-1 rounded-lg border transition-colors ${
+                        color.id === keeper.id ? 'border-purple-500 bg-purple-900/20' : 'border-gray-700 hover:border-gray-500'
+                      }`}
+                      title={color.id === keeper.id ? 'Kept after merging' : 'Keep this color instead'}
+                    >
+                      <span className="w-6 h-6 rounded" style={swatchStyle(getColorHex8(color))} />
+                      <span className="text-left">
+                        <span className="block text-xs text-white">{color.name}</span>
+                        <span className="block text-xs font-mono text-gray-400">
+                          {getColorHex8(color).toUpperCase()}
+                          {color.id !== keeper.id && ` · ΔE ${getDeltaE(color.hex, keeper.hex).toFixed(1)}`}
+                        </span>
+                      </span>
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => onMerge([toMerge(group)])}
+                  className="ml-4 flex-shrink-0 flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded-lg transition-colors text-sm"
+                >
+                  <GitMerge className="w-4 h-4" />
+                  <span>Merge</span>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
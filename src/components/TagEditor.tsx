@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { addTags, parseTags } from '../utils/tagUtils';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange?: (tags: string[]) => void;
+  onTagClick?: (tag: string) => void;
+}
+
+export const TagEditor: React.FC<TagEditorProps> = ({ tags, onChange, onTagClick }) => {
+  const [input, setInput] = useState('');
+
+  const commit = () => {
+    const parsed = parseTags(input);
+    if (onChange && parsed.length > 0) {
+      onChange(addTags(tags, parsed));
+    }
+    setInput('');
+  };
+
+  if (!onChange && tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center bg-gray-700 text-gray-200 text-xs rounded-full pl-2 pr-1 py-0.5">
+          <button
+            onClick={() => onTagClick?.(tag)}
+            className={onTagClick ? 'hover:text-purple-300 transition-colors' : 'cursor-default'}
+            title={onTagClick ? `Filter by "${tag}"` : undefined}
+          >
+            {tag}
+          </button>
+          {onChange && (
+            <button
+              onClick={() => onChange(tags.filter(t => t !== tag))}
+              className="ml-1 p-0.5 text-gray-400 hover:text-white transition-colors"
+              title="Remove tag"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </span>
+      ))}
+      {onChange && (
+        <div className="flex items-center text-gray-500">
+          <Tag className="w-3 h-3 mr-1" />
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ',') {
+                e.preventDefault();
+                commit();
+              }
+              if (e.key === 'Backspace' && !input && tags.length > 0) {
+                onChange(tags.slice(0, -1));
+              }
+            }}
+            placeholder="Add tag"
+            className="bg-transparent text-xs text-white w-16 focus:w-24 focus:outline-none transition-all"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,349 @@
+import React, { useState } from 'react';
+import { SunMoon, Sun, Moon, Plus, Trash2, Wand2, Copy, Check, Download, X } from 'lucide-react';
+import { Color, ColorPalette, ThemeMapping, ThemeMode, ThemeRole } from '../types/color';
+import { getColorHex8, swatchStyle } from '../utils/colorUtils';
+import { downloadFile } from '../utils/exportUtils';
+import {
+  themeRoles,
+  themeModes,
+  createThemeMapping,
+  suggestThemeRoles,
+  generateDarkRoles,
+  checkRoleContrast,
+  exportThemeCss
+} from '../utils/themeUtils';
+
+interface ThemeManagerProps {
+  themes: ThemeMapping[];
+  libraryColors: Color[];
+  palettes: ColorPalette[];
+  onCreateTheme: (theme: ThemeMapping) => void;
+  onUpdateTheme: (id: string, update: (theme: ThemeMapping) => ThemeMapping) => void;
+  onDeleteTheme: (id: string) => void;
+  onAddColors: (colors: Color[]) => void;
+}
+
+export const ThemeManager: React.FC<ThemeManagerProps> = ({
+  themes,
+  libraryColors,
+  palettes,
+  onCreateTheme,
+  onUpdateTheme,
+  onDeleteTheme,
+  onAddColors
+}) => {
+  const [newThemeName, setNewThemeName] = useState('');
+  // Empty: start from nothing; 'library' or a palette id: suggest roles from those colors
+  const [startFrom, setStartFrom] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<ThemeMode>('light');
+  const [copied, setCopied] = useState(false);
+  // Name being typed; saved on blur or Enter so each keystroke is not its own undo step
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+
+  const theme = themes.find(t => t.id === selectedId) ?? themes[0];
+
+  const createTheme = () => {
+    if (!newThemeName.trim()) return;
+    const sourceColors = startFrom === 'library'
+      ? libraryColors
+      : palettes.find(palette => palette.id === startFrom)?.colors ?? [];
+    const light = suggestThemeRoles(sourceColors);
+    const created = createThemeMapping(newThemeName, light, generateDarkRoles(light));
+    onCreateTheme(created);
+    setSelectedId(created.id);
+    setNewThemeName('');
+  };
+
+  const assignRole = (role: ThemeRole, color: Color | undefined) => {
+    if (!theme) return;
+    onUpdateTheme(theme.id, t => {
+      const roles = { ...t[mode] };
+      if (color) {
+        roles[role] = { ...color };
+      } else {
+        delete roles[role];
+      }
+      return { ...t, [mode]: roles };
+    });
+  };
+
+  const saveName = () => {
+    const name = nameDraft?.trim();
+    if (theme && name && name !== theme.name) {
+      onUpdateTheme(theme.id, t => ({ ...t, name }));
+    }
+    setNameDraft(null);
+  };
+
+  const regenerateDark = () => {
+    if (!theme) return;
+    onUpdateTheme(theme.id, t => ({ ...t, dark: generateDarkRoles(t.light) }));
+    setMode('dark');
+  };
+
+  // Generated dark colors only live in the theme until they are added to the library
+  const libraryHexes = new Set(libraryColors.map(color => getColorHex8(color).toLowerCase()));
+  const unsavedColors = theme
+    ? Object.values(theme[mode]).filter((color): color is Color => !!color && !libraryHexes.has(getColorHex8(color).toLowerCase()))
+    : [];
+
+  const css = theme ? exportThemeCss(theme) : '';
+  const checks = theme ? checkRoleContrast(theme[mode]) : [];
+
+  const copyCss = async () => {
+    try {
+      await navigator.clipboard.writeText(css);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const roleLabel = (role: ThemeRole) => themeRoles.find(r => r.key === role)?.label ?? role;
+
+  return (
+    <div className="space-y-6">
+      {/* Create Theme */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center space-x-2">
+          <SunMoon className="w-5 h-5" />
+          <span>Themes</span>
+        </h2>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-48">
+            <label className="block text-sm font-medium text-gray-300 mb-2">Theme Name</label>
+            <input
+              type="text"
+              value={newThemeName}
+              onChange={(e) => setNewThemeName(e.target.value)}
+              placeholder="e.g. Product UI"
+              className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-purple-500 focus:outline-none"
+              onKeyDown={(e) => e.key === 'Enter' && createTheme()}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Start From</label>
+            <select
+              value={startFrom}
+              onChange={(e) => setStartFrom(e.target.value)}
+              className="bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-purple-500 focus:outline-none"
+            >
+              <option value="">Empty roles</option>
+              <option value="library">Suggest from library</option>
+              {palettes.map(palette => (
+                <option key={palette.id} value={palette.id}>Suggest from {palette.name}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={createTheme}
+            disabled={!newThemeName.trim()}
+            className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-6 py-2 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Create Theme</span>
+          </button>
+        </div>
+
+        {themes.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-6">
+            {themes.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setSelectedId(t.id)}
+                className={`flex items-center space-x-2 px-3 py-2 rounded-lg border text-sm transition-colors ${
+                  t.id === theme?.id
+                    ? 'bg-purple-600/20 border-purple-500 text-white'
+                    : 'bg-gray-900 border-gray-700 text-gray-300 hover:border-gray-500'
+                }`}
+              >
+                <span className="flex">
+                  {(['light', 'dark'] as const).map(m => (
+                    <span
+                      key={m}
+                      className="w-3 h-5 first:rounded-l last:rounded-r"
+                      style={{ backgroundColor: t[m].primary?.hex ?? t[m].background?.hex ?? '#6b7280' }}
+                    />
+                  ))}
+                </span>
+                <span>{t.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {theme ? (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          {/* Role Mapping */}
+          <div className="bg-gray-800 rounded-xl border border-gray-700 p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <input
+                type="text"
+                value={nameDraft ?? theme.name}
+                onChange={(e) => setNameDraft(e.target.value)}
+                onBlur={saveName}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                  if (e.key === 'Escape') setNameDraft(null);
+                }}
+                className="bg-transparent text-lg font-semibold text-white border-b border-transparent hover:border-gray-600 focus:border-purple-500 focus:outline-none"
+              />
+              <button
+                onClick={() => onDeleteTheme(theme.id)}
+                className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                title="Delete theme"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex space-x-2">
+                {themeModes.map(({ key, label }) => (
+                  <button
+                    key={key}
+                    onClick={() => setMode(key)}
+                    className={`flex items-center space-x-2 px-3 py-1 rounded text-sm font-medium transition-colors ${
+                      mode === key ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {key === 'light' ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
+                    <span>{label}</span>
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={regenerateDark}
+                disabled={Object.keys(theme.light).length === 0}
+                className="flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-1 rounded-lg transition-colors text-sm"
+                title="Replace the dark roles with ones derived from the light roles"
+              >
+                <Wand2 className="w-4 h-4" />
+                <span>Generate Dark from Light</span>
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              {themeRoles.map(({ key, label, description }) => {
+                const assigned = theme[mode][key];
+                return (
+                  <div key={key} className="flex items-center space-x-3 p-2 rounded-lg bg-gray-900">
+                    <div
+                      className="w-10 h-10 rounded-lg border border-gray-600 flex-shrink-0"
+                      style={assigned ? swatchStyle(getColorHex8(assigned)) : undefined}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-white">
+                        {label} <code className="text-xs text-gray-500">--color-{key}</code>
+                      </div>
+                      <div className="text-xs text-gray-400 truncate">
+                        {assigned ? `${assigned.name} ${getColorHex8(assigned).toUpperCase()}` : description}
+                      </div>
+                    </div>
+                    <select
+                      value=""
+                      onChange={(e) => assignRole(key, libraryColors.find(color => color.id === e.target.value))}
+                      className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white focus:border-purple-500 focus:outline-none max-w-40"
+                    >
+                      <option value="" disabled>{assigned ? 'Change...' : 'Assign...'}</option>
+                      {libraryColors.map(color => (
+                        <option key={color.id} value={color.id}>
+                          {color.name} ({getColorHex8(color).toUpperCase()})
+                        </option>
+                      ))}
+                    </select>
+                    {assigned && (
+                      <button
+                        onClick={() => assignRole(key, undefined)}
+                        className="p-1 text-gray-400 hover:text-white transition-colors"
+                        title="Clear role"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {unsavedColors.length > 0 && (
+              <div className="flex items-center justify-between text-sm text-gray-400">
+                <span>{unsavedColors.length} {mode} color{unsavedColors.length === 1 ? ' is' : 's are'} not in your library</span>
+                <button
+                  onClick={() => onAddColors(unsavedColors)}
+                  className="flex items-center space-x-1 text-purple-300 hover:text-purple-200 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Add to library</span>
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            {/* Role Contrast */}
+            <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+              <h3 className="text-lg font-semibold text-white mb-4">
+                {mode === 'light' ? 'Light' : 'Dark'} Contrast Checks
+              </h3>
+              {checks.length > 0 ? (
+                <div className="space-y-2">
+                  {checks.map(check => (
+                    <div
+                      key={`${check.foreground}-${check.background}`}
+                      className={`flex items-center justify-between px-3 py-2 rounded-lg border text-sm ${
+                        check.pass
+                          ? 'bg-green-900/40 border-green-600 text-green-300'
+                          : 'bg-red-900/40 border-red-600 text-red-300'
+                      }`}
+                    >
+                      <span>{roleLabel(check.foreground)} on {roleLabel(check.background)}</span>
+                      <span className="font-mono">
+                        {check.ratio.toFixed(2)}:1 <span className="text-xs opacity-75">/ {check.minRatio}:1</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Assign roles to check their contrast.</p>
+              )}
+            </div>
+
+            {/* CSS Export */}
+            <div className="bg-gray-800 rounded-xl border border-gray-700 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-white">CSS Custom Properties</h3>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={copyCss}
+                    className="flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded-lg transition-colors text-sm"
+                  >
+                    {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+                    <span>{copied ? 'Copied' : 'Copy'}</span>
+                  </button>
+                  <button
+                    onClick={() => downloadFile(css, 'theme.css', 'text/css')}
+                    className="flex items-center space-x-2 bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded-lg transition-colors text-sm"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>Download</span>
+                  </button>
+                </div>
+              </div>
+              <pre className="bg-gray-900 rounded-lg p-4 text-xs font-mono text-gray-300 overflow-auto max-h-96">{css}</pre>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="text-center py-16">
+          <SunMoon className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-400 mb-2">No themes yet</h3>
+          <p className="text-gray-500">Create a theme to map your colors to semantic roles</p>
+        </div>
+      )}
+    </div>
+  );
+};
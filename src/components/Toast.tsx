@@ -0,0 +1,38 @@
+import React, { useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+
+interface ToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+export const Toast: React.FC<ToastProps> = ({ message, actionLabel, onAction, onDismiss, duration = 6000 }) => {
+  // Keep the latest callback without restarting the timer on every parent render
+  const dismiss = useRef(onDismiss);
+  dismiss.current = onDismiss;
+
+  useEffect(() => {
+    const timer = setTimeout(() => dismiss.current(), duration);
+    return () => clearTimeout(timer);
+  }, [duration]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center space-x-4 bg-gray-700 border border-gray-600 text-white px-4 py-3 rounded-lg shadow-lg">
+      <span className="text-sm">{message}</span>
+      {actionLabel && onAction && (
+        <button
+          onClick={onAction}
+          className="text-sm font-semibold text-purple-300 hover:text-purple-200 transition-colors"
+        >
+          {actionLabel}
+        </button>
+      )}
+      <button onClick={onDismiss} className="p-1 text-gray-400 hover:text-white transition-colors">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,436 @@
+import React, { useMemo, useState } from 'react';
+import { LayoutDashboard, Sun, Moon, Save, CheckCircle, AlertCircle, Bell, X } from 'lucide-react';
+import { Color, ColorPalette, ThemeMapping, ThemeMode, ThemeRole, ThemeRoles } from '../types/color';
+import { getColorHex8, getContrastColor, compositeOver, toHex8, swatchStyle } from '../utils/colorUtils';
+import {
+  themeRoles,
+  themeModes,
+  suggestThemeRoles,
+  generateDarkRoles,
+  checkRoleContrast,
+  createThemeMapping
+} from '../utils/themeUtils';
+
+interface UiPreviewPanelProps {
+  // 'palette:<id>' or 'theme:<id>'; empty until something is picked
+  source: string;
+  onSourceChange: (source: string) => void;
+  palettes: ColorPalette[];
+  themes: ThemeMapping[];
+  onCreateTheme: (theme: ThemeMapping) => void;
+  onUpdateTheme: (id: string, update: (theme: ThemeMapping) => ThemeMapping) => void;
+}
+
+// Used for roles that have not been assigned yet
+const FALLBACKS: Record<ThemeMode, Record<ThemeRole, string>> = {
+  light: {
+    background: '#ffffff',
+    surface: '#f3f4f6',
+    primary: '#6366f1',
+    'on-primary': '#ffffff',
+    border: '#d1d5db',
+    danger: '#dc2626',
+    success: '#16a34a'
+  },
+  dark: {
+    background: '#111827',
+    surface: '#1f2937',
+    primary: '#818cf8',
+    'on-primary': '#111827',
+    border: '#4b5563',
+    danger: '#f87171',
+    success: '#4ade80'
+  }
+};
+
+const CHART_VALUES = [42, 68, 55, 80, 64, 92, 74];
+
+const uniqueColors = (colors: (Color | undefined)[]): Color[] => {
+  const seen = new Set<string>();
+  return colors.filter((color): color is Color => {
+    if (!color || seen.has(color.id)) return false;
+    seen.add(color.id);
+    return true;
+  });
+};
+
+export const UiPreviewPanel: React.FC<UiPreviewPanelProps> = ({
+  source,
+  onSourceChange,
+  palettes,
+  themes,
+  onCreateTheme,
+  onUpdateTheme
+}) => {
+  const [mode, setMode] = useState<ThemeMode>('light');
+  // Roles changed here but not saved yet; null marks a role that was cleared
+  const [overrides, setOverrides] = useState<Partial<Record<ThemeRole, Color | null>>>({});
+  const [syncedKey, setSyncedKey] = useState('');
+  const [dragColorId, setDragColorId] = useState<string | null>(null);
+  const [dropRole, setDropRole] = useState<ThemeRole | null>(null);
+
+  const [sourceType, sourceId] = source.split(':');
+  const palette = sourceType === 'palette' ? palettes.find(p => p.id === sourceId) : undefined;
+  const theme = sourceType === 'theme' ? themes.find(t => t.id === sourceId) : undefined;
+
+  // Start over whenever another palette, theme or mode is picked
+  const key = `${source}|${mode}`;
+  if (key !== syncedKey) {
+    setSyncedKey(key);
+    setOverrides({});
+  }
+
+  // Follows the source, so edits in ThemeManager, undo and imports show up right away
+  const sourceRoles = theme?.[mode];
+  const paletteColors = palette?.colors;
+  const baseRoles = useMemo<ThemeRoles>(() => {
+    if (sourceRoles) return sourceRoles;
+    if (!paletteColors) return {};
+    const light = suggestThemeRoles(paletteColors);
+    return mode === 'light' ? light : generateDarkRoles(light);
+  }, [sourceRoles, paletteColors, mode]);
+
+  const roles = useMemo<ThemeRoles>(() => {
+    const merged: ThemeRoles = { ...baseRoles };
+    (Object.keys(overrides) as ThemeRole[]).forEach(role => {
+      const override = overrides[role];
+      if (override) {
+        merged[role] = override;
+      } else {
+        delete merged[role];
+      }
+    });
+    return merged;
+  }, [baseRoles, overrides]);
+
+  const isDirty = Object.keys(overrides).length > 0;
+
+  const swatches = palette
+    ? palette.colors
+    : theme
+      ? uniqueColors([...Object.values(theme.light), ...Object.values(theme.dark)])
+      : [];
+
+  const assign = (role: ThemeRole, color: Color | undefined) => {
+    setOverrides(prev => ({ ...prev, [role]: color ? { ...color } : null }));
+  };
+
+  const dropTarget = (role: ThemeRole) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragColorId) return;
+      // Nested targets (a button on a card on the page) should only light up the innermost one
+      e.preventDefault();
+      e.stopPropagation();
+      setDropRole(role);
+    },
+    onDragLeave: () => setDropRole(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      assign(role, swatches.find(color => color.id === dragColorId));
+      setDropRole(null);
+      setDragColorId(null);
+    }
+  });
+
+  const outline = (role: ThemeRole): React.CSSProperties =>
+    dropRole === role ? { outline: '2px dashed #a855f7', outlineOffset: 2 } : {};
+
+  const save = () => {
+    if (theme) {
+      onUpdateTheme(theme.id, t => ({ ...t, [mode]: roles }));
+    } else if (palette) {
+      const light = mode === 'light' ? roles : suggestThemeRoles(palette.colors);
+      const dark = mode === 'dark' ? roles : generateDarkRoles(roles);
+      const created = createThemeMapping(palette.name, light, dark);
+      onCreateTheme(created);
+      onSourceChange(`theme:${created.id}`);
+    }
+    setOverrides({});
+  };
+
+  const color = (role: ThemeRole) => roles[role] ? getColorHex8(roles[role]!) : FALLBACKS[mode][role];
+  const tint = (role: ThemeRole, alpha: number) => toHex8((roles[role]?.hex ?? FALLBACKS[mode][role]).slice(0, 7), alpha);
+
+  const background = color('background');
+  const surface = color('surface');
+  const primary = color('primary');
+  const border = color('border');
+  const danger = color('danger');
+  const success = color('success');
+  const pageHex = compositeOver(background, mode === 'dark' ? '#000000' : '#ffffff');
+  const surfaceHex = compositeOver(surface, pageHex);
+  const text = getContrastColor(pageHex);
+  const surfaceText = getContrastColor(surfaceHex);
+  const chartColors = [primary, success, danger, ...swatches.map(getColorHex8)];
+
+  const checks = checkRoleContrast(roles);
+  const failing = checks.filter(check => !check.pass);
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-xl font-bold text-white flex items-center space-x-2">
+          <LayoutDashboard className="w-5 h-5" />
+          <span>UI Preview</span>
+        </h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={source}
+            onChange={(e) => onSourceChange(e.target.value)}
+            className="bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-purple-500 focus:outline-none"
+          >
+            <option value="" disabled>Choose a palette or theme...</option>
+            {palettes.length > 0 && (
+              <optgroup label="Palettes">
+                {palettes.map(p => <option key={p.id} value={`palette:${p.id}`}>{p.name}</option>)}
+              </optgroup>
+            )}
+            {themes.length > 0 && (
+              <optgroup label="Themes">
+                {themes.map(t => <option key={t.id} value={`theme:${t.id}`}>{t.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+          {themeModes.map(({ key: m, label }) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+                mode === m ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {m === 'light' ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
+              <span>{label}</span>
+            </button>
+          ))}
+          {(palette || theme) && (
+            <button
+              onClick={save}
+              disabled={!!theme && !isDirty}
+              className="flex items-center space-x-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-2 rounded-lg transition-colors text-sm"
+            >
+              <Save className="w-4 h-4" />
+              <span>{theme ? 'Save to Theme' : 'Save as Theme'}</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!palette && !theme ? (
+        <p className="text-sm text-gray-500">
+          Pick a palette to see it on sample components, or a theme to review its light and dark roles.
+        </p>
+      ) : (
+        <>
+          {/* Draggable colors */}
+          <div>
+            <p className="text-sm text-gray-400 mb-2">Drag a color onto a role below or straight onto the preview.</p>
+            <div className="flex flex-wrap gap-2">
+              {swatches.map(swatch => (
+                <div
+                  key={swatch.id}
+                  draggable
+                  onDragStart={(e) => {
+                    // Firefox only starts a drag that carries data
+                    e.dataTransfer.setData('text/plain', swatch.id);
+                    e.dataTransfer.effectAllowed = 'copy';
+                    setDragColorId(swatch.id);
+                  }}
+                  onDragEnd={() => {
+                    setDragColorId(null);
+                    setDropRole(null);
+                  }}
+                  className={`w-10 h-10 rounded-lg border-2 border-gray-600 cursor-grab active:cursor-grabbing ${
+                    dragColorId === swatch.id ? 'opacity-50' : ''
+                  }`}
+                  style={swatchStyle(getColorHex8(swatch))}
+                  title={`${swatch.name} ${getColorHex8(swatch).toUpperCase()}`}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Role slots */}
+          <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-2">
+            {themeRoles.map(({ key: role, label }) => (
+              <div
+                key={role}
+                {...dropTarget(role)}
+                className={`p-2 rounded-lg border text-xs transition-colors ${
+                  dropRole === role ? 'border-purple-500 bg-purple-600/20' : 'border-gray-700 bg-gray-900'
+                }`}
+              >
+                <div className="h-8 rounded mb-2 relative" style={swatchStyle(color(role))}>
+                  {roles[role] && (
+                    <button
+                      onClick={() => assign(role, undefined)}
+                      className="absolute top-1 right-1 p-0.5 rounded bg-black/40 text-white"
+                      title="Clear role"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+                <div className="font-medium text-white">{label}</div>
+                <div className="text-gray-500 truncate">{roles[role]?.name ?? 'Default'}</div>
+              </div>
+            ))}
+          </div>
+
+          {failing.length > 0 && (
+            <div className="flex flex-wrap gap-2 text-xs">
+              {failing.map(check => (
+                <span
+                  key={`${check.foreground}-${check.background}`}
+                  className="px-2 py-1 rounded bg-red-900/40 border border-red-600 text-red-300"
+                >
+                  {check.foreground} on {check.background}: {check.ratio.toFixed(2)}:1 (needs {check.minRatio}:1)
+                </span>
+              ))}
+            </div>
+          )}
+
+          {/* Sample dashboard */}
+          <div
+            {...dropTarget('background')}
+            className="rounded-xl p-6 space-y-6"
+            style={{ backgroundColor: background, color: text, ...outline('background') }}
+          >
+            <div className="flex items-center justify-between pb-4" style={{ borderBottom: `1px solid ${border}` }}>
+              <div>
+                <h3 className="text-2xl font-bold">Acme Analytics</h3>
+                <p className="text-sm opacity-70">
+                  Weekly overview &middot; <a href="#preview" onClick={(e) => e.preventDefault()} style={{ color: primary }} className="underline">View report</a>
+                </p>
+              </div>
+              <Bell className="w-5 h-5 opacity-70" />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {[
+                { label: 'Revenue', value: '$48,210', change: '+12.4%', role: 'success' as const },
+                { label: 'Active users', value: '3,942', change: '+3.1%', role: 'success' as const },
+                { label: 'Churn', value: '2.8%', change: '+0.6%', role: 'danger' as const }
+              ].map(stat => (
+                <div
+                  key={stat.label}
+                  {...dropTarget('surface')}
+                  className="rounded-lg p-4"
+                  style={{ backgroundColor: surface, color: surfaceText, border: `1px solid ${border}`, ...outline('surface') }}
+                >
+                  <div className="text-sm opacity-70">{stat.label}</div>
+                  <div className="text-2xl font-bold">{stat.value}</div>
+                  <div className="text-sm font-medium" style={{ color: color(stat.role) }}>{stat.change}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {/* Chart */}
+              <div
+                {...dropTarget('surface')}
+                className="rounded-lg p-4"
+                style={{ backgroundColor: surface, color: surfaceText, border: `1px solid ${border}`, ...outline('surface') }}
+              >
+                <div className="text-sm font-semibold mb-3">Sessions by day</div>
+                <svg viewBox="0 0 280 120" className="w-full h-32">
+                  <line x1="0" y1="110" x2="280" y2="110" stroke={border} />
+                  {CHART_VALUES.map((value, i) => (
+                    <rect
+                      key={i}
+                      x={i * 40 + 8}
+                      y={110 - value}
+                      width="24"
+                      height={value}
+                      rx="3"
+                      fill={chartColors[i % chartColors.length]}
+                    />
+                  ))}
+                  <polyline
+                    points={CHART_VALUES.map((value, i) => `${i * 40 + 20},${100 - value * 0.9}`).join(' ')}
+                    fill="none"
+                    stroke={primary}
+                    strokeWidth="2"
+                  />
+                </svg>
+              </div>
+
+              {/* Form */}
+              <div
+                {...dropTarget('surface')}
+                className="rounded-lg p-4 space-y-3"
+                style={{ backgroundColor: surface, color: surfaceText, border: `1px solid ${border}`, ...outline('surface') }}
+              >
+                <div className="text-sm font-semibold">Invite a teammate</div>
+                <input
+                  type="text"
+                  readOnly
+                  value="alex@example.com"
+                  {...dropTarget('border')}
+                  className="w-full rounded-lg px-3 py-2 text-sm focus:outline-none"
+                  style={{ backgroundColor: background, color: text, border: `1px solid ${border}`, ...outline('border') }}
+                />
+                <input
+                  type="text"
+                  readOnly
+                  value="not-an-email"
+                  {...dropTarget('danger')}
+                  className="w-full rounded-lg px-3 py-2 text-sm focus:outline-none"
+                  style={{ backgroundColor: background, color: text, border: `2px solid ${danger}`, ...outline('danger') }}
+                />
+                <p className="text-xs" style={{ color: danger }}>Enter a valid email address</p>
+                <label className="flex items-center space-x-2 text-sm">
+                  <input type="checkbox" readOnly checked style={{ accentColor: primary }} />
+                  <span>Send a welcome email</span>
+                </label>
+                <div className="flex flex-wrap gap-2 pt-1">
+                  <button
+                    {...dropTarget('primary')}
+                    className="px-4 py-2 rounded-lg text-sm font-medium"
+                    style={{ backgroundColor: primary, color: color('on-primary'), ...outline('primary') }}
+                  >
+                    Send invite
+                  </button>
+                  <button
+                    className="px-4 py-2 rounded-lg text-sm font-medium"
+                    style={{ color: primary, border: `1px solid ${primary}` }}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    {...dropTarget('danger')}
+                    className="px-4 py-2 rounded-lg text-sm font-medium"
+                    style={{ backgroundColor: danger, color: getContrastColor(compositeOver(danger, surfaceHex)), ...outline('danger') }}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* Alerts */}
+            <div className="space-y-3">
+              <div
+                {...dropTarget('success')}
+                className="flex items-center space-x-3 rounded-lg px-4 py-3 text-sm"
+                style={{ backgroundColor: tint('success', 0.12), border: `1px solid ${success}`, ...outline('success') }}
+              >
+                <CheckCircle className="w-5 h-5 flex-shrink-0" style={{ color: success }} />
+                <span>Your changes were saved.</span>
+              </div>
+              <div
+                {...dropTarget('danger')}
+                className="flex items-center space-x-3 rounded-lg px-4 py-3 text-sm"
+                style={{ backgroundColor: tint('danger', 0.12), border: `1px solid ${danger}`, ...outline('danger') }}
+              >
+                <AlertCircle className="w-5 h-5 flex-shrink-0" style={{ color: danger }} />
+                <span>Payment failed. Update your card to keep your plan.</span>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import { useRef, useState } from 'react';
+import { LibraryData } from '../types/color';
+
+type Setter<T> = (value: T | ((val: T) => T)) => void;
+
+// Snapshots of the whole library; every mutation made through `track`ed setters can be undone.
+// A new `resetKey` (a change from another tab) clears both stacks, since restoring an older
+// snapshot would silently throw that change away
+export function useLibraryHistory(
+  library: LibraryData,
+  restore: (data: LibraryData) => void,
+  resetKey = 0,
+  limit = 50
+) {
+  const [past, setPast] = useState<LibraryData[]>([]);
+  const [future, setFuture] = useState<LibraryData[]>([]);
+  const [syncedResetKey, setSyncedResetKey] = useState(resetKey);
+  const isRecording = useRef(false);
+  // Bumped on every record, undo and redo, so callers can tell whether the history moved on
+  const version = useRef(0);
+
+  if (resetKey !== syncedResetKey) {
+    setSyncedResetKey(resetKey);
+    setPast([]);
+    setFuture([]);
+    version.current++;
+  }
+
+  // Several setters called by one handler (e.g. an import) share a single undo step
+  const record = () => {
+    if (isRecording.current) return;
+    isRecording.current = true;
+    version.current++;
+    setTimeout(() => {
+      isRecording.current = false;
+    }, 0);
+    setPast(prev => [...prev, library].slice(-limit));
+    setFuture([]);
+  };
+
+  const track = <T>(setter: Setter<T>): Setter<T> => (value) => {
+    record();
+    setter(value);
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    version.current++;
+    setPast(past.slice(0, -1));
+    setFuture([...future, library]);
+    restore(past[past.length - 1]);
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    version.current++;
+    setFuture(future.slice(0, -1));
+    setPast([...past, library].slice(-limit));
+    restore(future[future.length - 1]);
+  };
+
+  return {
+    track,
+    undo,
+    redo,
+    getVersion: () => version.current,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0
+  };
+}
@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from 'react';
+import { LibraryData } from '../types/color';
+import { LibraryStorage, StorageCollection, openLibraryStorage, describeStorageError } from '../utils/storage';
+
+const COLLECTIONS: StorageCollection[] = ['colors', 'palettes', 'combinations', 'themes', 'gradients'];
+
+const emptyLibrary: LibraryData = { colors: [], palettes: [], combinations: [], themes: [], gradients: [] };
+
+// Loads the library once, saves each collection after it changes and follows changes made in other tabs
+export function useLibraryStorage() {
+  const [library, setLibrary] = useState<LibraryData>(emptyLibrary);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Counts changes applied from other tabs, so undo history built on older data can be dropped
+  const [remoteVersion, setRemoteVersion] = useState(0);
+  const storage = useRef<LibraryStorage | null>(null);
+  // What storage currently holds, so remote updates and the initial load are not written back
+  const saved = useRef<LibraryData>(emptyLibrary);
+
+  useEffect(() => {
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+
+    openLibraryStorage()
+      .then(async opened => {
+        const data = await opened.load();
+        if (cancelled) return;
+        storage.current = opened;
+        saved.current = data;
+        setLibrary(data);
+        setIsLoaded(true);
+
+        unsubscribe = opened.subscribe(async collection => {
+          const items = await opened.loadCollection(collection);
+          saved.current = { ...saved.current, [collection]: items };
+          setLibrary(prev => ({ ...prev, [collection]: items }));
+          setRemoteVersion(version => version + 1);
+        });
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading the color library:', err);
+        setError(`Your saved library could not be loaded: ${err instanceof Error ? err.message : String(err)}`);
+        setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
+  useEffect(() => {
+    const current = storage.current;
+    if (!isLoaded || !current) return;
+
+    COLLECTIONS.forEach(collection => {
+      const previous = saved.current[collection];
+      if (library[collection] === previous) return;
+      saved.current = { ...saved.current, [collection]: library[collection] };
+      current.save(collection, library[collection], previous)
+        .then(() => setError(null))
+        .catch(err => {
+          console.error(`Error saving ${collection}:`, err);
+          setError(describeStorageError(err));
+        });
+    });
+  }, [library, isLoaded]);
+
+  const setterFor = <K extends StorageCollection>(collection: K) =>
+    (value: LibraryData[K] | ((val: LibraryData[K]) => LibraryData[K])) => {
+      setLibrary(prev => ({
+        ...prev,
+        [collection]: value instanceof Function ? value(prev[collection]) : value
+      }));
+    };
+
+  return {
+    ...library,
+    setColors: setterFor('colors'),
+    setPalettes: setterFor('palettes'),
+    setCombinations: setterFor('combinations'),
+    setThemes: setterFor('themes'),
+    setGradients: setterFor('gradients'),
+    isLoaded,
+    remoteVersion,
+    backend: storage.current?.backend,
+    error,
+    dismissError: () => setError(null)
+  };
+}
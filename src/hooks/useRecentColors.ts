@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { normalizeHex } from '../utils/colorUtils';
+
+const RECENT_COLORS_KEY = 'devpalette-recent-colors';
+
+// Every picker on the page shares one list, so changes are broadcast to the other instances
+const listeners = new Set<(colors: string[]) => void>();
+
+const readRecentColors = (): string[] => {
+  try {
+    const raw = JSON.parse(window.localStorage.getItem(RECENT_COLORS_KEY) || '[]');
+    return Array.isArray(raw)
+      ? raw.map(value => typeof value === 'string' ? normalizeHex(value) : null).filter((hex): hex is string => !!hex)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export function useRecentColors(limit = 12) {
+  const [recentColors, setRecentColors] = useState<string[]>(readRecentColors);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === RECENT_COLORS_KEY) setRecentColors(readRecentColors());
+    };
+    listeners.add(setRecentColors);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      listeners.delete(setRecentColors);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  const addRecentColor = (value: string) => {
+    const hex = normalizeHex(value);
+    if (!hex) return;
+    const next = [hex, ...readRecentColors().filter(color => color !== hex)].slice(0, limit);
+    try {
+      window.localStorage.setItem(RECENT_COLORS_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.warn('Could not save recent colors:', error);
+    }
+    listeners.forEach(listener => listener(next));
+  };
+
+  return { recentColors, addRecentColor };
+}
@@ -4,7 +4,13 @@ export interface Color {
   hex: string;
   rgb: { r: number; g: number; b: number };
   hsl: { h: number; s: number; l: number };
+  lab?: { l: number; a: number; b: number };
+  oklch?: { l: number; c: number; h: number };
+  // 0-1, left out for opaque colors
+  alpha?: number;
   isFavorite: boolean;
+  tags?: string[];
+  note?: string;
   createdAt: Date;
 }
 
@@ -14,6 +20,175 @@ export interface ColorPalette {
   colors: Color[];
   createdAt: Date;
   isFavorite: boolean;
+  tags?: string[];
+  note?: string;
 }
 
-export type ColorFormat = 'hex' | 'rgb' | 'hsl' | 'css-var';
\ No newline at end of file
+// Palette decoded from a share link; only names and hex values travel in the URL
+export interface SharedPalette {
+  name: string;
+  colors: { name: string; hex: string; alpha?: number }[];
+}
+
+// Free-form details shared by colors and palettes
+export type ItemDetails = Pick<Color, 'tags' | 'note'>;
+
+export interface WcagRating {
+  aaNormal: boolean;
+  aaLarge: boolean;
+  aaaNormal: boolean;
+  aaaLarge: boolean;
+}
+
+export interface ScaleOptions {
+  steps: number;
+  hueShift: number;
+  chromaEasing: 'none' | 'linear' | 'smooth';
+  pinStep: number | 'auto';
+}
+
+// Relative HSL changes: hue in degrees, saturation and lightness in percentage points
+export interface ColorAdjustment {
+  hueShift: number;
+  saturation: number;
+  lightness: number;
+}
+
+export type ColorSortKey = 'date' | 'name' | 'hue' | 'lightness';
+
+// Ranges are inclusive [min, max]; a hue range with min > max wraps through 0°
+export interface ColorFilters {
+  hueRange: [number, number];
+  saturationRange: [number, number];
+  lightnessRange: [number, number];
+  tags: string[];
+  nearHex: string;
+  maxDistance: number;
+}
+
+export type QuantizeMethod = 'kmeans' | 'median-cut';
+
+export interface ImageExtractOptions {
+  count: number;
+  method: QuantizeMethod;
+}
+
+// A dominant color and the fraction (0-1) of sampled pixels it represents
+export interface ExtractedColor {
+  hex: string;
+  share: number;
+}
+
+export interface ColorCombination {
+  id: string;
+  colors: string[];
+  weights: number[];
+  space: MixSpace;
+  result: string;
+  name: string;
+  createdAt: Date;
+}
+
+export type ColorFormat = 'hex' | 'rgb' | 'hsl' | 'oklch' | 'oklab' | 'lab' | 'lch' | 'css-var';
+export type ExportFormat = 'tailwind' | 'scss' | 'css' | 'tokens' | 'gpl' | 'ase' | 'aco' | 'procreate';
+export type MixSpace = 'srgb' | 'srgb-linear' | 'oklab' | 'lch';
+export type VisionMode = 'normal' | 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+export type HarmonyScheme =
+  | 'classic'
+  | 'complementary'
+  | 'analogous'
+  | 'triadic'
+  | 'split-complementary'
+  | 'square'
+  | 'rectangle'
+  | 'monochromatic'
+  | 'analogous-shades'
+  | 'custom';
+
+export interface HarmonyOptions {
+  scheme: HarmonyScheme;
+  space: 'hsl' | 'oklch';
+  spread: number;
+  customAngles: number[];
+  lightnessVariation: number;
+  saturationVariation: number;
+}
+
+export type ThemeRole = 'background' | 'surface' | 'primary' | 'on-primary' | 'border' | 'danger' | 'success';
+
+export type ThemeMode = 'light' | 'dark';
+
+// Roles can be left unassigned while a theme is being built
+export type ThemeRoles = Partial<Record<ThemeRole, Color>>;
+
+export interface ThemeMapping {
+  id: string;
+  name: string;
+  light: ThemeRoles;
+  dark: ThemeRoles;
+  createdAt: Date;
+}
+
+export interface RoleContrastCheck {
+  foreground: ThemeRole;
+  background: ThemeRole;
+  minRatio: number;
+  ratio: number;
+  pass: boolean;
+}
+
+export type GradientType = 'linear' | 'radial' | 'conic';
+
+export type GradientInterpolation = 'srgb' | 'oklch';
+
+export interface GradientStop {
+  id: string;
+  // 6- or 8-digit hex
+  color: string;
+  // 0-100 along the gradient line (or around the circle for conic)
+  position: number;
+}
+
+export interface Gradient {
+  id: string;
+  name: string;
+  type: GradientType;
+  // Direction for linear, starting angle for conic
+  angle: number;
+  // Center for radial and conic, in percent of the box
+  center: { x: number; y: number };
+  interpolation: GradientInterpolation;
+  // Insert OKLCH midpoints so sRGB blending does not pass through gray
+  smooth: boolean;
+  stops: GradientStop[];
+  createdAt: Date;
+}
+
+export interface LibraryData {
+  colors: Color[];
+  palettes: ColorPalette[];
+  combinations: ColorCombination[];
+  themes: ThemeMapping[];
+  gradients: Gradient[];
+}
+
+export type ImportStrategy = 'replace' | 'merge' | 'skip-duplicate-hex' | 'skip-duplicate-id';
+
+export interface ImportIssue {
+  section: 'file' | 'colors' | 'palettes' | 'combinations' | 'themes' | 'gradients';
+  index: number;
+  message: string;
+}
+
+export interface ImportPreview {
+  fileName: string;
+  version: number;
+  data: LibraryData;
+  issues: ImportIssue[];
+}
+
+export interface SwatchFile {
+  name: string;
+  colors: Color[];
+}
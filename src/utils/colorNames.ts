@@ -0,0 +1,165 @@
+import { Color } from '../types/color';
+import { hexToRgb, rgbToOklab, rgbToOklch, parseCssColorWithAlpha } from './colorUtils';
+
+// CSS Color Module Level 4 named colors (grey/gray aliases listed once)
+export const CSS_NAMED_COLORS: Record<string, string> = {
+  aliceblue: '#f0f8ff', antiquewhite: '#faebd7', aqua: '#00ffff', aquamarine: '#7fffd4',
+  azure: '#f0ffff', beige: '#f5f5dc', bisque: '#ffe4c4', black: '#000000',
+  blanchedalmond: '#ffebcd', blue: '#0000ff', blueviolet: '#8a2be2', brown: '#a52a2a',
+  burlywood: '#deb887', cadetblue: '#5f9ea0', chartreuse: '#7fff00', chocolate: '#d2691e',
+  coral: '#ff7f50', cornflowerblue: '#6495ed', cornsilk: '#fff8dc', crimson: '#dc143c',
+  cyan: '#00ffff', darkblue: '#00008b', darkcyan: '#008b8b', darkgoldenrod: '#b8860b',
+  darkgray: '#a9a9a9', darkgreen: '#006400', darkkhaki: '#bdb76b', darkmagenta: '#8b008b',
+  darkolivegreen: '#556b2f', darkorange: '#ff8c00', darkorchid: '#9932cc', darkred: '#8b0000',
+  darksalmon: '#e9967a', darkseagreen: '#8fbc8f', darkslateblue: '#483d8b', darkslategray: '#2f4f4f',
+  darkturquoise: '#00ced1', darkviolet: '#9400d3', deeppink: '#ff1493', deepskyblue: '#00bfff',
+  dimgray: '#696969', dodgerblue: '#1e90ff', firebrick: '#b22222', floralwhite: '#fffaf0',
+  forestgreen: '#228b22', fuchsia: '#ff00ff', gainsboro: '#dcdcdc', ghostwhite: '#f8f8ff',
+  gold: '#ffd700', goldenrod: '#daa520', gray: '#808080', green: '#008000',
+  greenyellow: '#adff2f', honeydew: '#f0fff0', hotpink: '#ff69b4', indianred: '#cd5c5c',
+  indigo: '#4b0082', ivory: '#fffff0', khaki: '#f0e68c', lavender: '#e6e6fa',
+  lavenderblush: '#fff0f5', lawngreen: '#7cfc00', lemonchiffon: '#fffacd', lightblue: '#add8e6',
+  lightcoral: '#f08080', lightcyan: '#e0ffff', lightgoldenrodyellow: '#fafad2', lightgray: '#d3d3d3',
+  lightgreen: '#90ee90', lightpink: '#ffb6c1', lightsalmon: '#ffa07a', lightseagreen: '#20b2aa',
+  lightskyblue: '#87cefa', lightslategray: '#778899', lightsteelblue: '#b0c4de', lightyellow: '#ffffe0',
+  lime: '#00ff00', limegreen: '#32cd32', linen: '#faf0e6', magenta: '#ff00ff',
+  maroon: '#800000', mediumaquamarine: '#66cdaa', mediumblue: '#0000cd', mediumorchid: '#ba55d3',
+  mediumpurple: '#9370db', mediumseagreen: '#3cb371', mediumslateblue: '#7b68ee', mediumspringgreen: '#00fa9a',
+  mediumturquoise: '#48d1cc', mediumvioletred: '#c71585', midnightblue: '#191970', mintcream: '#f5fffa',
+  mistyrose: '#ffe4e1', moccasin: '#ffe4b5', navajowhite: '#ffdead', navy: '#000080',
+  oldlace: '#fdf5e6', olive: '#808000', olivedrab: '#6b8e23', orange: '#ffa500',
+  orangered: '#ff4500', orchid: '#da70d6', palegoldenrod: '#eee8aa', palegreen: '#98fb98',
+  paleturquoise: '#afeeee', palevioletred: '#db7093', papayawhip: '#ffefd5', peachpuff: '#ffdab9',
+  peru: '#cd853f', pink: '#ffc0cb', plum: '#dda0dd', powderblue: '#b0e0e6',
+  purple: '#800080', rebeccapurple: '#663399', red: '#ff0000', rosybrown: '#bc8f8f',
+  royalblue: '#4169e1', saddlebrown: '#8b4513', salmon: '#fa8072', sandybrown: '#f4a460',
+  seagreen: '#2e8b57', seashell: '#fff5ee', sienna: '#a0522d', silver: '#c0c0c0',
+  skyblue: '#87ceeb', slateblue: '#6a5acd', slategray: '#708090', snow: '#fffafa',
+  springgreen: '#00ff7f', steelblue: '#4682b4', tan: '#d2b48c', teal: '#008080',
+  thistle: '#d8bfd8', tomato: '#ff6347', turquoise: '#40e0d0', violet: '#ee82ee',
+  wheat: '#f5deb3', white: '#ffffff', whitesmoke: '#f5f5f5', yellow: '#ffff00',
+  yellowgreen: '#9acd32'
+};
+
+// Human-readable names used for suggestions; the CSS set above only backs the closest CSS name lookup
+const DESCRIPTIVE_COLOR_NAMES: [string, string][] = [
+  ['Black', '#000000'], ['White', '#ffffff'], ['Gray', '#808080'], ['Silver', '#c0c0c0'],
+  ['Red', '#ff0000'], ['Maroon', '#800000'], ['Orange', '#ffa500'], ['Yellow', '#ffff00'],
+  ['Olive', '#808000'], ['Lime', '#00ff00'], ['Green', '#008000'], ['Teal', '#008080'],
+  ['Cyan', '#00ffff'], ['Blue', '#0000ff'], ['Navy', '#000080'], ['Purple', '#800080'],
+  ['Magenta', '#ff00ff'], ['Pink', '#ffc0cb'], ['Brown', '#a52a2a'], ['Snow', '#fffafa'],
+  ['Onyx', '#0f0f0f'], ['Charcoal', '#36454f'], ['Graphite', '#4b4e53'], ['Gunmetal', '#2a3439'],
+  ['Slate', '#64748b'], ['Ash', '#b2beb5'], ['Stone', '#a8a29e'], ['Pebble', '#cfcac3'],
+  ['Fog', '#dcdde0'], ['Cloud', '#eceff1'], ['Pearl', '#f2eee6'], ['Smoke', '#848884'],
+  ['Ink', '#1b1f3b'], ['Midnight', '#1e2a44'], ['Navy Blue', '#1f2f5c'], ['Denim', '#1560bd'],
+  ['Cobalt', '#0047ab'], ['Sapphire', '#0f52ba'], ['Royal Blue', '#2f55d4'], ['Electric Blue', '#3b82f6'],
+  ['Cornflower', '#6c91e8'], ['Periwinkle', '#a3a8f0'], ['Cerulean', '#2a9fd6'], ['Azure Blue', '#1e88e5'],
+  ['Sky', '#7cc4f2'], ['Baby Blue', '#a7d3f2'], ['Ice Blue', '#d6ecfa'], ['Arctic', '#e8f6fb'],
+  ['Steel', '#5a7a99'], ['Petrol', '#1f4e5f'], ['Deep Teal', '#0f4c4c'], ['Teal Green', '#0f8a7e'],
+  ['Lagoon', '#14a3a3'], ['Aqua Marine', '#3cc7b4'], ['Turquoise Blue', '#1fc1d6'], ['Seafoam', '#9fe2bf'],
+  ['Mint', '#98e4c1'], ['Jade', '#00a86b'], ['Emerald', '#10b981'], ['Kelly Green', '#2fa84f'],
+  ['Forest', '#1f5f3a'], ['Pine', '#234f3b'], ['Hunter Green', '#355e3b'], ['Bottle Green', '#0b4a2f'],
+  ['Moss', '#6b7f3a'], ['Fern', '#4f7942'], ['Sage', '#9caf88'], ['Eucalyptus', '#6f9c8a'],
+  ['Avocado', '#568203'], ['Pistachio', '#93c572'], ['Pear', '#c9d94e'], ['Lime Green', '#84cc16'],
+  ['Neon Green', '#39ff14'], ['Chartreuse Yellow', '#dfff00'], ['Olive Drab', '#6b6b2f'], ['Khaki Green', '#8a865d'],
+  ['Lemon', '#fde047'], ['Canary', '#ffef5c'], ['Butter', '#fff1a8'], ['Banana', '#ffe135'],
+  ['Sunflower', '#f7c520'], ['Marigold', '#eaa221'], ['Mustard', '#d4a017'], ['Amber', '#f59e0b'],
+  ['Saffron', '#f4c430'], ['Honey', '#e8a93a'], ['Ochre', '#cc7722'], ['Gold Leaf', '#c9a227'],
+  ['Vanilla', '#f3e5ab'], ['Cream', '#fff8e1'], ['Ivory White', '#fbf7ee'], ['Champagne', '#f1ddcf'],
+  ['Sand', '#d8c39a'], ['Beige Sand', '#e1d2b8'], ['Wheat Field', '#e3c99a'], ['Camel', '#c19a6b'],
+  ['Tan Brown', '#b08d63'], ['Khaki Tan', '#c3b091'], ['Taupe', '#8b7d70'], ['Mocha', '#8a6a55'],
+  ['Latte', '#c8a27c'], ['Caramel', '#c27c3a'], ['Toffee', '#9c6b3c'], ['Cinnamon', '#a0522d'],
+  ['Walnut', '#5d432c'], ['Chocolate Brown', '#4e2e1e'], ['Espresso', '#3b2a20'], ['Coffee', '#6f4e37'],
+  ['Cocoa', '#7b5141'], ['Mahogany', '#6f2a1e'], ['Chestnut', '#954535'], ['Sepia', '#704214'],
+  ['Bronze', '#cd7f32'], ['Copper', '#b87333'], ['Rust', '#b7410e'], ['Terracotta', '#c8603e'],
+  ['Clay', '#b66a50'], ['Brick', '#a3412e'], ['Adobe', '#bd6c48'], ['Burnt Orange', '#cc5500'],
+  ['Pumpkin', '#f97316'], ['Carrot', '#ed7d31'], ['Tangerine', '#f28500'], ['Mango', '#ffa62b'],
+  ['Apricot', '#fbceb1'], ['Peach', '#ffcba4'], ['Papaya', '#ffb380'], ['Persimmon', '#ec5800'],
+  ['Vermilion', '#e34234'], ['Scarlet', '#e0301e'], ['Cherry', '#d2042d'], ['Ruby', '#c0143c'],
+  ['Crimson Red', '#b91c1c'], ['Wine', '#722f37'], ['Burgundy', '#800020'], ['Oxblood', '#4a0000'],
+  ['Maroon Red', '#6e1423'], ['Raspberry', '#d3305f'], ['Strawberry', '#fc5a8d'], ['Watermelon', '#fd4659'],
+  ['Coral Pink', '#f88379'], ['Salmon Pink', '#ff91a4'], ['Flamingo', '#fc8eac'], ['Bubblegum', '#ffc1cc'],
+  ['Blush', '#f4c2c2'], ['Dusty Rose', '#c9a0a0'], ['Rose', '#f43f5e'], ['Candy Pink', '#f472b6'],
+  ['Hot Magenta', '#ec4899'], ['Fuchsia Pink', '#d946ef'], ['Mulberry', '#8c2d5b'], ['Plum Purple', '#6b2d5c'],
+  ['Eggplant', '#3d1f3d'], ['Grape', '#6f2da8'], ['Amethyst', '#9966cc'], ['Violet Purple', '#8b5cf6'],
+  ['Iris', '#5a4fcf'], ['Indigo Blue', '#4f46e5'], ['Ultramarine', '#3f00ff'], ['Lilac', '#c8a2c8'],
+  ['Lavender Mist', '#ddd6fe'], ['Mauve', '#b784a7'], ['Orchid Pink', '#e0a3d4'], ['Heather', '#b7a9c8']
+];
+
+interface NamedColorEntry {
+  name: string;
+  hex: string;
+  lab: { l: number; a: number; b: number };
+}
+
+const toEntries = (pairs: [string, string][]): NamedColorEntry[] => {
+  return pairs.map(([name, hex]) => {
+    const rgb = hexToRgb(hex);
+    return { name, hex, lab: rgbToOklab(rgb.r, rgb.g, rgb.b) };
+  });
+};
+
+// Built on first use so importing this module stays cheap
+let cssEntries: NamedColorEntry[] | null = null;
+let suggestionEntries: NamedColorEntry[] | null = null;
+
+const getCssEntries = () => {
+  if (!cssEntries) cssEntries = toEntries(Object.entries(CSS_NAMED_COLORS));
+  return cssEntries;
+};
+
+const getSuggestionEntries = () => {
+  if (!suggestionEntries) suggestionEntries = toEntries(DESCRIPTIVE_COLOR_NAMES);
+  return suggestionEntries;
+};
+
+// Euclidean distance in OKLab scaled by 100, roughly comparable to CIE Delta E
+const findNearest = (hex: string, entries: NamedColorEntry[]): { name: string; hex: string; distance: number } => {
+  const rgb = hexToRgb(hex);
+  const lab = rgbToOklab(rgb.r, rgb.g, rgb.b);
+  let nearest = entries[0];
+  let best = Infinity;
+  entries.forEach(entry => {
+    const d = Math.hypot(lab.l - entry.lab.l, lab.a - entry.lab.a, lab.b - entry.lab.b);
+    if (d < best) {
+      best = d;
+      nearest = entry;
+    }
+  });
+  return { name: nearest.name, hex: nearest.hex, distance: best * 100 };
+};
+
+export const findClosestCssColor = (hex: string) => findNearest(hex, getCssEntries());
+
+// Anything a user might paste: CSS literals, named colors (including "grey" spellings) and transparent
+export const parseColorInput = (value: string): { hex: string; alpha: number } | null => {
+  const name = value.trim().toLowerCase().replace(/\s+/g, '').replace(/grey/g, 'gray');
+  if (name === 'transparent') return { hex: '#000000', alpha: 0 };
+  if (CSS_NAMED_COLORS[name]) return { hex: CSS_NAMED_COLORS[name], alpha: 1 };
+  return parseCssColorWithAlpha(value);
+};
+
+export const suggestColorName = (hex: string): string => {
+  const nearest = findNearest(hex, getSuggestionEntries());
+  if (nearest.distance < 6) return nearest.name;
+
+  // Far from every entry: qualify the nearest name by how the lightness differs
+  const rgb = hexToRgb(hex);
+  const lightness = rgbToOklch(rgb.r, rgb.g, rgb.b).l;
+  const target = hexToRgb(nearest.hex);
+  const difference = lightness - rgbToOklch(target.r, target.g, target.b).l;
+  if (difference > 0.06) return `Light ${nearest.name}`;
+  if (difference < -0.06) return `Dark ${nearest.name}`;
+  return nearest.name;
+};
+
+// Suggested names for a generated set, numbered when two colors land on the same name
+export const nameColors = (colors: Color[]): Color[] => {
+  const counts = new Map<string, number>();
+  return colors.map(color => {
+    const base = suggestColorName(color.hex);
+    const count = (counts.get(base) || 0) + 1;
+    counts.set(base, count);
+    return { ...color, name: count > 1 ? `${base} ${count}` : base };
+  });
+};
@@ -1,12 +1,110 @@
-import { Color } from '../types/color';
+import { Color, ColorAdjustment, ColorFormat, MixSpace, WcagRating } from '../types/color';
 
+// Accepts 3, 4, 6 or 8 digits with or without the hash; any alpha digits are ignored here
 export const hexToRgb = (hex: string): { r: number; g: number; b: number } => {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result ? {
-    r: parseInt(result[1], 16),
-    g: parseInt(result[2], 16),
-    b: parseInt(result[3], 16)
-  } : { r: 0, g: 0, b: 0 };
+  const match = /^#?([a-f\d]{3,4}|[a-f\d]{6}|[a-f\d]{8})$/i.exec(hex.trim());
+  if (!match) return { r: 0, g: 0, b: 0 };
+  const digits = match[1].length <= 4 ? match[1].split('').map(d => d + d).join('') : match[1];
+  return {
+    r: parseInt(digits.slice(0, 2), 16),
+    g: parseInt(digits.slice(2, 4), 16),
+    b: parseInt(digits.slice(4, 6), 16)
+  };
+};
+
+// Splits #rgba / #rrggbbaa into the opaque hex and a 0-1 alpha; anything else comes back with alpha 1
+export const splitHexAlpha = (hex: string): { hex: string; alpha: number } => {
+  const match = /^#?([a-f\d]{4}|[a-f\d]{8})$/i.exec(hex.trim());
+  if (!match) return { hex, alpha: 1 };
+  const rgb = hexToRgb(hex);
+  const alphaDigits = match[1].length === 4 ? match[1][3].repeat(2) : match[1].slice(6);
+  return { hex: rgbToHex(rgb.r, rgb.g, rgb.b), alpha: round(parseInt(alphaDigits, 16) / 255, 3) };
+};
+
+// Opaque colors keep their 6-digit form
+export const toHex8 = (hex: string, alpha: number): string => {
+  return alpha >= 1 ? hex : hex + Math.round(Math.max(0, alpha) * 255).toString(16).padStart(2, '0');
+};
+
+export const getColorHex8 = (color: Color): string => toHex8(color.hex, color.alpha ?? 1);
+
+// What a translucent color looks like painted over an opaque backdrop (browsers blend in sRGB)
+export const compositeOver = (hex: string, backdrop: string): string => {
+  const { hex: base, alpha } = splitHexAlpha(hex);
+  if (alpha >= 1) return base;
+  const top = hexToRgb(base);
+  const bottom = hexToRgb(backdrop);
+  const blend = (a: number, b: number) => Math.round(a * alpha + b * (1 - alpha));
+  return rgbToHex(blend(top.r, bottom.r), blend(top.g, bottom.g), blend(top.b, bottom.b));
+};
+
+const CHECKERBOARD = 'repeating-conic-gradient(#9ca3af 0% 25%, #e5e7eb 0% 50%)';
+
+// Inline style that shows transparency as the usual gray checkerboard
+export const checkerboardStyle = {
+  backgroundImage: CHECKERBOARD,
+  backgroundSize: '12px 12px'
+};
+
+// Swatch background for a hex that may carry alpha: the color layered over the checkerboard
+export const swatchStyle = (hex: string) => {
+  if (splitHexAlpha(hex).alpha >= 1) return { backgroundColor: hex };
+  return {
+    backgroundImage: `linear-gradient(${hex}, ${hex}), ${CHECKERBOARD}`,
+    backgroundSize: '100% 100%, 12px 12px'
+  };
+};
+
+// Accepts #rgb, #rrggbb, with or without the hash; returns lowercase #rrggbb or null
+export const normalizeHex = (value: string): string | null => {
+  const match = /^#?([a-f\d]{3}|[a-f\d]{6})$/i.exec(value.trim());
+  if (!match) return null;
+  const digits = match[1].length === 3
+    ? match[1].split('').map(d => d + d).join('')
+    : match[1];
+  return `#${digits.toLowerCase()}`;
+};
+
+// Parses hex (3, 4, 6 or 8 digits), rgb()/rgba() and hsl()/hsla() literals in comma or space syntax; alpha is 0-1
+export const parseCssColorWithAlpha = (value: string): { hex: string; alpha: number } | null => {
+  const input = value.trim().toLowerCase();
+
+  const hexMatch = /^#?([a-f\d]{3,4}|[a-f\d]{6}|[a-f\d]{8})$/.exec(input);
+  if (hexMatch) {
+    const digits = hexMatch[1];
+    return digits.length === 4 || digits.length === 8 ? splitHexAlpha(digits) : { hex: normalizeHex(digits)!, alpha: 1 };
+  }
+
+  const fnMatch = /^(rgba?|hsla?)\(([^)]*)\)$/.exec(input);
+  if (!fnMatch) return null;
+
+  const parts = fnMatch[2].split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3 || parts.length > 4) return null;
+
+  const number = (part: string, percentScale: number) => {
+    const n = parseFloat(part);
+    return part.endsWith('%') ? (n / 100) * percentScale : n;
+  };
+
+  const alpha = parts.length === 4 ? Math.max(0, Math.min(1, number(parts[3], 1))) : 1;
+  if (isNaN(alpha)) return null;
+
+  if (fnMatch[1].startsWith('rgb')) {
+    const [r, g, b] = parts.slice(0, 3).map(part => Math.round(Math.max(0, Math.min(255, number(part, 255)))));
+    return [r, g, b].some(isNaN) ? null : { hex: rgbToHex(r, g, b), alpha };
+  }
+
+  const h = parseFloat(parts[0]) * (parts[0].endsWith('turn') ? 360 : parts[0].endsWith('rad') ? 180 / Math.PI : 1);
+  const s = Math.max(0, Math.min(100, parseFloat(parts[1])));
+  const l = Math.max(0, Math.min(100, parseFloat(parts[2])));
+  if ([h, s, l].some(isNaN)) return null;
+  const rgb = hslToRgb(((h % 360) + 360) % 360, s, l);
+  return { hex: rgbToHex(rgb.r, rgb.g, rgb.b), alpha };
+};
+
+// Same as above for callers that only care about the opaque color
+export const parseCssColor = (value: string): string | null => {
+  return parseCssColorWithAlpha(value)?.hex ?? null;
 };
 
 export const rgbToHex = (r: number, g: number, b: number): string => {
@@ -76,6 +174,336 @@ export const hslToRgb = (h: number, s: number, l: number): { r: number; g: numbe
   };
 };
 
+// HSV/HSB with hue in degrees and saturation/value in 0-100
+export const rgbToHsv = (r: number, g: number, b: number): { h: number; s: number; v: number } => {
+  r /= 255;
+  g /= 255;
+  b /= 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const d = max - min;
+  let h = 0;
+
+  if (d !== 0) {
+    switch (max) {
+      case r: h = (g - b) / d + (g < b ? 6 : 0); break;
+      case g: h = (b - r) / d + 2; break;
+      case b: h = (r - g) / d + 4; break;
+    }
+    h /= 6;
+  }
+
+  return {
+    h: h * 360,
+    s: max === 0 ? 0 : (d / max) * 100,
+    v: max * 100
+  };
+};
+
+export const hsvToRgb = (h: number, s: number, v: number): { r: number; g: number; b: number } => {
+  h = ((h % 360) + 360) % 360 / 60;
+  s /= 100;
+  v /= 100;
+
+  const c = v * s;
+  const x = c * (1 - Math.abs((h % 2) - 1));
+  const m = v - c;
+  const [r, g, b] =
+    h < 1 ? [c, x, 0] :
+    h < 2 ? [x, c, 0] :
+    h < 3 ? [0, c, x] :
+    h < 4 ? [0, x, c] :
+    h < 5 ? [x, 0, c] :
+    [c, 0, x];
+
+  return {
+    r: Math.round((r + m) * 255),
+    g: Math.round((g + m) * 255),
+    b: Math.round((b + m) * 255)
+  };
+};
+
+export const srgbToLinear = (channel: number): number => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+export const linearToSrgb = (value: number): number => {
+  const v = Math.max(0, Math.min(1, value));
+  const c = v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+  return Math.round(c * 255);
+};
+
+type Xyz = [number, number, number];
+type Matrix = [Xyz, Xyz, Xyz];
+
+const D65_WHITE: Xyz = [0.95047, 1, 1.08883];
+// CSS lab() and lch() are defined against D50
+const D50_WHITE: Xyz = [0.96422, 1, 0.82521];
+
+const SRGB_TO_XYZ_D65: Matrix = [
+  [0.4124564, 0.3575761, 0.1804375],
+  [0.2126729, 0.7151522, 0.0721750],
+  [0.0193339, 0.1191920, 0.9503041]
+];
+
+const XYZ_D65_TO_SRGB: Matrix = [
+  [3.2404542, -1.5371385, -0.4985314],
+  [-0.9692660, 1.8760108, 0.0415560],
+  [0.0556434, -0.2040259, 1.0572252]
+];
+
+// Bradford-adapted to D50 (Lindbloom)
+const SRGB_TO_XYZ_D50: Matrix = [
+  [0.4360747, 0.3850649, 0.1430804],
+  [0.2225045, 0.7168786, 0.0606169],
+  [0.0139322, 0.0971045, 0.7141733]
+];
+
+const XYZ_D50_TO_SRGB: Matrix = [
+  [3.1338561, -1.6168667, -0.4906146],
+  [-0.9787684, 1.9161415, 0.0334540],
+  [0.0719453, -0.2289914, 1.4052427]
+];
+
+const multiply = (m: Matrix, [x, y, z]: Xyz): Xyz =>
+  m.map(row => row[0] * x + row[1] * y + row[2] * z) as Xyz;
+
+const rgbToXyz = (r: number, g: number, b: number, m: Matrix): Xyz => {
+  return multiply(m, [srgbToLinear(r), srgbToLinear(g), srgbToLinear(b)]);
+};
+
+const xyzToRgb = (xyz: Xyz, m: Matrix): { r: number; g: number; b: number } => {
+  const [r, g, b] = multiply(m, xyz);
+  return { r: linearToSrgb(r), g: linearToSrgb(g), b: linearToSrgb(b) };
+};
+
+const xyzToLab = ([x, y, z]: Xyz, white: Xyz): { l: number; a: number; b: number } => {
+  const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+  const fx = f(x / white[0]);
+  const fy = f(y / white[1]);
+  const fz = f(z / white[2]);
+
+  return {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz)
+  };
+};
+
+const labToXyz = (l: number, a: number, b: number, white: Xyz): Xyz => {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+
+  const fInv = (t: number) => Math.pow(t, 3) > 216 / 24389 ? Math.pow(t, 3) : (116 * t - 16) / (24389 / 27);
+  return [fInv(fx) * white[0], fInv(fy) * white[1], fInv(fz) * white[2]];
+};
+
+// CIELAB (D65 white point), used for Delta E
+export const rgbToLab = (r: number, g: number, b: number): { l: number; a: number; b: number } => {
+  return xyzToLab(rgbToXyz(r, g, b, SRGB_TO_XYZ_D65), D65_WHITE);
+};
+
+export const labToRgb = (l: number, a: number, b: number): { r: number; g: number; b: number } => {
+  return xyzToRgb(labToXyz(l, a, b, D65_WHITE), XYZ_D65_TO_SRGB);
+};
+
+// CIELAB as CSS lab() reads it (D50 white point)
+export const rgbToCssLab = (r: number, g: number, b: number): { l: number; a: number; b: number } => {
+  return xyzToLab(rgbToXyz(r, g, b, SRGB_TO_XYZ_D50), D50_WHITE);
+};
+
+export const cssLabToRgb = (l: number, a: number, b: number): { r: number; g: number; b: number } => {
+  return xyzToRgb(labToXyz(l, a, b, D50_WHITE), XYZ_D50_TO_SRGB);
+};
+
+// Polar forms shared by CIELAB -> LCH and OKLab -> OKLCH
+const toPolar = (a: number, b: number): { c: number; h: number } => {
+  const c = Math.sqrt(a * a + b * b);
+  const h = (Math.atan2(b, a) * 180 / Math.PI + 360) % 360;
+  return { c, h };
+};
+
+const fromPolar = (c: number, h: number): { a: number; b: number } => {
+  const rad = h * Math.PI / 180;
+  return { a: c * Math.cos(rad), b: c * Math.sin(rad) };
+};
+
+export const rgbToCssLch = (r: number, g: number, b: number): { l: number; c: number; h: number } => {
+  const lab = rgbToCssLab(r, g, b);
+  return { l: lab.l, ...toPolar(lab.a, lab.b) };
+};
+
+export const cssLchToRgb = (l: number, c: number, h: number): { r: number; g: number; b: number } => {
+  const { a, b } = fromPolar(c, h);
+  return cssLabToRgb(l, a, b);
+};
+
+// OKLab (Björn Ottosson), lightness in 0-1
+export const rgbToOklab = (r: number, g: number, b: number): { l: number; a: number; b: number } => {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const l_ = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m_ = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s_ = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  return {
+    l: 0.2104542553 * l_ + 0.7936177850 * m_ - 0.0040720468 * s_,
+    a: 1.9779984951 * l_ - 2.4285922050 * m_ + 0.4505937099 * s_,
+    b: 0.0259040371 * l_ + 0.7827717662 * m_ - 0.8086757660 * s_
+  };
+};
+
+// Unclamped linear sRGB, used for gamut checks
+const oklabToLinearRgb = (l: number, a: number, b: number): [number, number, number] => {
+  const l_ = l + 0.3963377774 * a + 0.2158037573 * b;
+  const m_ = l - 0.1055613458 * a - 0.0638541728 * b;
+  const s_ = l - 0.0894841775 * a - 1.2914855480 * b;
+
+  const lc = l_ * l_ * l_;
+  const mc = m_ * m_ * m_;
+  const sc = s_ * s_ * s_;
+
+  return [
+    4.0767416621 * lc - 3.3077115913 * mc + 0.2309699292 * sc,
+    -1.2684380046 * lc + 2.6097574011 * mc - 0.3413193965 * sc,
+    -0.0041960863 * lc - 0.7034186147 * mc + 1.7076147010 * sc
+  ];
+};
+
+export const oklabToRgb = (l: number, a: number, b: number): { r: number; g: number; b: number } => {
+  const [lr, lg, lb] = oklabToLinearRgb(l, a, b);
+  return { r: linearToSrgb(lr), g: linearToSrgb(lg), b: linearToSrgb(lb) };
+};
+
+export const rgbToOklch = (r: number, g: number, b: number): { l: number; c: number; h: number } => {
+  const lab = rgbToOklab(r, g, b);
+  return { l: lab.l, ...toPolar(lab.a, lab.b) };
+};
+
+export const isOklchInGamut = (l: number, c: number, h: number): boolean => {
+  const { a, b } = fromPolar(c, h);
+  const epsilon = 0.0001;
+  return oklabToLinearRgb(l, a, b).every(v => v >= -epsilon && v <= 1 + epsilon);
+};
+
+// Out-of-gamut colors keep lightness and hue and lose chroma until they fit in sRGB
+export const oklchToRgb = (l: number, c: number, h: number): { r: number; g: number; b: number } => {
+  const lightness = Math.max(0, Math.min(1, l));
+  let chroma = Math.max(0, c);
+
+  if (!isOklchInGamut(lightness, chroma, h)) {
+    let low = 0;
+    let high = chroma;
+    while (high - low > 0.0005) {
+      const mid = (low + high) / 2;
+      if (isOklchInGamut(lightness, mid, h)) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    chroma = low;
+  }
+
+  const { a, b } = fromPolar(chroma, h);
+  return oklabToRgb(lightness, a, b);
+};
+
+// Shortest way around the hue circle, as CSS color-mix() does by default
+export const interpolateHue = (h1: number, h2: number, t: number): number => {
+  let delta = h2 - h1;
+  if (delta > 180) delta -= 360;
+  if (delta < -180) delta += 360;
+  return (h1 + delta * t + 360) % 360;
+};
+
+// t is the share of the second color (0-1)
+export const interpolateColor = (hex1: string, hex2: string, t: number, space: MixSpace): string => {
+  const a = hexToRgb(hex1);
+  const b = hexToRgb(hex2);
+  const lerp = (x: number, y: number) => x + (y - x) * t;
+
+  switch (space) {
+    case 'srgb':
+      return rgbToHex(Math.round(lerp(a.r, b.r)), Math.round(lerp(a.g, b.g)), Math.round(lerp(a.b, b.b)));
+    case 'srgb-linear':
+      return rgbToHex(
+        linearToSrgb(lerp(srgbToLinear(a.r), srgbToLinear(b.r))),
+        linearToSrgb(lerp(srgbToLinear(a.g), srgbToLinear(b.g))),
+        linearToSrgb(lerp(srgbToLinear(a.b), srgbToLinear(b.b)))
+      );
+    case 'oklab': {
+      const labA = rgbToOklab(a.r, a.g, a.b);
+      const labB = rgbToOklab(b.r, b.g, b.b);
+      const rgb = oklabToRgb(lerp(labA.l, labB.l), lerp(labA.a, labB.a), lerp(labA.b, labB.b));
+      return rgbToHex(rgb.r, rgb.g, rgb.b);
+    }
+    case 'lch': {
+      // Same D50 LCH that color-mix(in lch, ...) uses
+      const lchA = rgbToCssLch(a.r, a.g, a.b);
+      const lchB = rgbToCssLch(b.r, b.g, b.b);
+      // Greys have no meaningful hue, so they take the other color's
+      const hueA = lchA.c < 0.5 ? lchB.h : lchA.h;
+      const hueB = lchB.c < 0.5 ? lchA.h : lchB.h;
+      const rgb = cssLchToRgb(lerp(lchA.l, lchB.l), lerp(lchA.c, lchB.c), interpolateHue(hueA, hueB, t));
+      return rgbToHex(rgb.r, rgb.g, rgb.b);
+    }
+  }
+};
+
+// More than two colors are mixed pairwise from left to right, which is what the
+// nested expression from getColorMixExpression evaluates to
+export const mixColors = (colors: string[], weights: number[], space: MixSpace): string => {
+  let result = colors[0];
+  let accumulated = weights[0] ?? 1;
+
+  for (let i = 1; i < colors.length; i++) {
+    const weight = weights[i] ?? 1;
+    const total = accumulated + weight;
+    result = interpolateColor(result, colors[i], total === 0 ? 0.5 : weight / total, space);
+    accumulated = total;
+  }
+
+  return result;
+};
+
+export const getColorMixExpression = (colors: string[], weights: number[], space: MixSpace): string => {
+  let expression = colors[0];
+  let accumulated = weights[0] ?? 1;
+
+  for (let i = 1; i < colors.length; i++) {
+    const total = accumulated + (weights[i] ?? 1);
+    const percentage = total === 0 ? 50 : Math.round((accumulated / total) * 10000) / 100;
+    expression = `color-mix(in ${space}, ${expression} ${percentage}%, ${colors[i]})`;
+    accumulated = total;
+  }
+
+  return expression;
+};
+
+export const generateBlendSequence = (hex1: string, hex2: string, steps: number, space: MixSpace): string[] => {
+  const count = Math.max(2, Math.round(steps));
+  return Array.from({ length: count }, (_, i) => interpolateColor(hex1, hex2, i / (count - 1), space));
+};
+
+// CIE76 color difference
+export const getDeltaE = (hex1: string, hex2: string): number => {
+  const rgb1 = hexToRgb(hex1);
+  const rgb2 = hexToRgb(hex2);
+  const lab1 = rgbToLab(rgb1.r, rgb1.g, rgb1.b);
+  const lab2 = rgbToLab(rgb2.r, rgb2.g, rgb2.b);
+  return Math.sqrt(
+    Math.pow(lab1.l - lab2.l, 2) +
+    Math.pow(lab1.a - lab2.a, 2) +
+    Math.pow(lab1.b - lab2.b, 2)
+  );
+};
+
 export const generateColorVariations = (baseColor: string): Color[] => {
   const rgb = hexToRgb(baseColor);
   const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
@@ -89,7 +517,7 @@ export const generateColorVariations = (baseColor: string): Color[] => {
     const newHex = rgbToHex(newRgb.r, newRgb.g, newRgb.b);
     
     variations.push({
-      id: `${baseColor}-${i}`,
+      id: generateId(),
       name: `Variation ${i}`,
       hex: newHex,
       rgb: newRgb,
@@ -102,58 +530,137 @@ export const generateColorVariations = (baseColor: string): Color[] => {
   return variations;
 };
 
-export const generateComplementaryColors = (baseColor: string): Color[] => {
-  const rgb = hexToRgb(baseColor);
-  const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
-  
-  const complementary = (hsl.h + 180) % 360;
-  const triadic1 = (hsl.h + 120) % 360;
-  const triadic2 = (hsl.h + 240) % 360;
-  const analogous1 = (hsl.h + 30) % 360;
-  const analogous2 = (hsl.h - 30 + 360) % 360;
-  
-  const colors = [
-    { h: complementary, name: 'Complementary' },
-    { h: triadic1, name: 'Triadic 1' },
-    { h: triadic2, name: 'Triadic 2' },
-    { h: analogous1, name: 'Analogous 1' },
-    { h: analogous2, name: 'Analogous 2' }
-  ];
-  
-  return colors.map((color, index) => {
-    const newRgb = hslToRgb(color.h, hsl.s, hsl.l);
-    const newHex = rgbToHex(newRgb.r, newRgb.g, newRgb.b);
-    
-    return {
-      id: `${baseColor}-${color.name}-${index}`,
-      name: color.name,
-      hex: newHex,
-      rgb: newRgb,
-      hsl: { h: color.h, s: hsl.s, l: hsl.l },
-      isFavorite: false,
-      createdAt: new Date()
-    };
+// Keeps id, name and metadata; only the color values change
+export const adjustColor = (color: Color, adjustment: ColorAdjustment): Color => {
+  const hsl = rgbToHsl(color.rgb.r, color.rgb.g, color.rgb.b);
+  const rgb = hslToRgb(
+    ((hsl.h + adjustment.hueShift) % 360 + 360) % 360,
+    Math.max(0, Math.min(100, hsl.s + adjustment.saturation)),
+    Math.max(0, Math.min(100, hsl.l + adjustment.lightness))
+  );
+  const adjusted = createColor(color.name, rgbToHex(rgb.r, rgb.g, rgb.b), color.id);
+  return { ...color, hex: adjusted.hex, rgb: adjusted.rgb, hsl: adjusted.hsl, lab: adjusted.lab, oklch: adjusted.oklch };
+};
+
+// WCAG 2.x relative luminance
+export const getRelativeLuminance = (r: number, g: number, b: number): number => {
+  const [lr, lg, lb] = [r, g, b].map(channel => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
   });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+};
+
+// Translucent colors are composited first: the background over the backdrop, then the text over that
+export const getContrastRatio = (hex1: string, hex2: string, backdrop = '#ffffff'): number => {
+  const background = compositeOver(hex2, backdrop);
+  const rgb1 = hexToRgb(compositeOver(hex1, background));
+  const rgb2 = hexToRgb(background);
+  const l1 = getRelativeLuminance(rgb1.r, rgb1.g, rgb1.b);
+  const l2 = getRelativeLuminance(rgb2.r, rgb2.g, rgb2.b);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+};
+
+export const getWcagRating = (ratio: number): WcagRating => {
+  return {
+    aaNormal: ratio >= 4.5,
+    aaLarge: ratio >= 3,
+    aaaNormal: ratio >= 7,
+    aaaLarge: ratio >= 4.5
+  };
 };
 
 export const getContrastColor = (hex: string): string => {
+  return getContrastRatio(hex, '#000000') >= getContrastRatio(hex, '#ffffff') ? '#000000' : '#ffffff';
+};
+
+// Nearest HSL lightness for the foreground that reaches the target ratio against the background
+export const suggestAccessibleColor = (foreground: string, background: string, targetRatio: number): string | null => {
+  const rgb = hexToRgb(foreground);
+  const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
+
+  for (let delta = 0; delta <= 100; delta++) {
+    for (const l of [hsl.l - delta, hsl.l + delta]) {
+      if (l < 0 || l > 100) continue;
+      const newRgb = hslToRgb(hsl.h, hsl.s, l);
+      const newHex = rgbToHex(newRgb.r, newRgb.g, newRgb.b);
+      if (getContrastRatio(newHex, background) >= targetRatio) {
+        return newHex;
+      }
+    }
+  }
+
+  return null;
+};
+
+export const generateId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+const round = (value: number, decimals: number): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+// An 8-digit (or 4-digit) hex sets the alpha; the stored hex is always opaque
+export const createColor = (name: string, hexValue: string, id: string = generateId()): Color => {
+  const { hex, alpha } = splitHexAlpha(hexValue);
   const rgb = hexToRgb(hex);
-  const brightness = (rgb.r * 299 + rgb.g * 587 + rgb.b * 114) / 1000;
-  return brightness > 128 ? '#000000' : '#ffffff';
+  const lab = rgbToLab(rgb.r, rgb.g, rgb.b);
+  const oklch = rgbToOklch(rgb.r, rgb.g, rgb.b);
+
+  return {
+    id,
+    name,
+    hex,
+    rgb,
+    hsl: rgbToHsl(rgb.r, rgb.g, rgb.b),
+    lab: { l: round(lab.l, 2), a: round(lab.a, 2), b: round(lab.b, 2) },
+    oklch: { l: round(oklch.l, 4), c: round(oklch.c, 4), h: round(oklch.h, 2) },
+    ...(alpha < 1 && { alpha }),
+    isFavorite: false,
+    createdAt: new Date()
+  };
 };
 
-export const formatColorCode = (color: Color, format: 'hex' | 'rgb' | 'hsl' | 'css-var', varName?: string): string => {
+export const formatColorCode = (color: Color, format: ColorFormat, varName?: string): string => {
+  const { r, g, b } = color.rgb;
+  const alpha = round(color.alpha ?? 1, 3);
+  // Space-separated syntaxes take the alpha after a slash
+  const slashAlpha = alpha < 1 ? ` / ${alpha}` : '';
+
   switch (format) {
     case 'hex':
-      return color.hex.toUpperCase();
+      return getColorHex8(color).toUpperCase();
     case 'rgb':
-      return `rgb(${color.rgb.r}, ${color.rgb.g}, ${color.rgb.b})`;
+      return alpha < 1
+        ? `rgba(${color.rgb.r}, ${color.rgb.g}, ${color.rgb.b}, ${alpha})`
+        : `rgb(${color.rgb.r}, ${color.rgb.g}, ${color.rgb.b})`;
     case 'hsl':
-      return `hsl(${color.hsl.h}, ${color.hsl.s}%, ${color.hsl.l}%)`;
-    case 'css-var':
+      return alpha < 1
+        ? `hsla(${color.hsl.h}, ${color.hsl.s}%, ${color.hsl.l}%, ${alpha})`
+        : `hsl(${color.hsl.h}, ${color.hsl.s}%, ${color.hsl.l}%)`;
+    case 'oklch': {
+      const oklch = rgbToOklch(r, g, b);
+      return `oklch(${round(oklch.l * 100, 2)}% ${round(oklch.c, 4)} ${round(oklch.c < 0.0001 ? 0 : oklch.h, 2)}${slashAlpha})`;
+    }
+    case 'oklab': {
+      const oklab = rgbToOklab(r, g, b);
+      return `oklab(${round(oklab.l * 100, 2)}% ${round(oklab.a, 4)} ${round(oklab.b, 4)}${slashAlpha})`;
+    }
+    case 'lab': {
+      const lab = rgbToCssLab(r, g, b);
+      return `lab(${round(lab.l, 2)}% ${round(lab.a, 2)} ${round(lab.b, 2)}${slashAlpha})`;
+    }
+    case 'lch': {
+      const lch = rgbToCssLch(r, g, b);
+      return `lch(${round(lch.l, 2)}% ${round(lch.c, 2)} ${round(lch.c < 0.01 ? 0 : lch.h, 2)}${slashAlpha})`;
+    }
+    case 'css-var': {
       const name = varName || color.name.toLowerCase().replace(/\s+/g, '-');
-      return `--${name}: ${color.hex};`;
+      return `--${name}: ${getColorHex8(color)};`;
+    }
     default:
-      return color.hex;
+      return getColorHex8(color);
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,77 @@
+import { Color } from '../types/color';
+import { getDeltaE, generateId, getColorHex8 } from './colorUtils';
+import { addTags } from './tagUtils';
+
+// Hex values may carry alpha digits; the same hex at another opacity is a different color
+export const findColorByHex = (colors: Color[], hex: string): Color | undefined => {
+  const target = hex.toLowerCase();
+  return colors.find(color => getColorHex8(color).toLowerCase() === target);
+};
+
+// Drops incoming colors whose exact hex is already present, including repeats within the batch
+export const withoutDuplicateHexes = (existing: Color[], incoming: Color[]): Color[] => {
+  const hexes = new Set(existing.map(color => getColorHex8(color).toLowerCase()));
+  return incoming.filter(color => {
+    const hex = getColorHex8(color).toLowerCase();
+    if (hexes.has(hex)) return false;
+    hexes.add(hex);
+    return true;
+  });
+};
+
+// Older libraries could hold several colors with the same id; give the repeats a fresh one
+export const ensureUniqueIds = <T extends { id: string }>(items: T[]): T[] => {
+  const ids = new Set<string>();
+  let changed = false;
+  const result = items.map(item => {
+    if (!ids.has(item.id)) {
+      ids.add(item.id);
+      return item;
+    }
+    changed = true;
+    const id = generateId();
+    ids.add(id);
+    return { ...item, id };
+  });
+  return changed ? result : items;
+};
+
+// Single-linkage grouping: a color joins a group when it is within the threshold of any member
+export const groupSimilarColors = (colors: Color[], threshold: number): Color[][] => {
+  const parent = colors.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < colors.length; i++) {
+    for (let j = i + 1; j < colors.length; j++) {
+      if (getDeltaE(colors[i].hex, colors[j].hex) <= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, Color[]>();
+  colors.forEach((color, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), color]);
+  });
+
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
+
+// Keeps one color of a group in place; it stays a favorite if any merged color was one
+// and collects the tags of every merged color
+export const mergeColors = (colors: Color[], keepId: string, mergeIds: string[]): Color[] => {
+  const removed = new Set(mergeIds.filter(id => id !== keepId));
+  const group = colors.filter(color => color.id === keepId || removed.has(color.id));
+  const isFavorite = group.some(color => color.isFavorite);
+  const tags = group.reduce<string[]>((result, color) => addTags(result, color.tags || []), []);
+  return colors
+    .filter(color => !removed.has(color.id))
+    .map(color => color.id === keepId ? { ...color, isFavorite, ...(tags.length > 0 && { tags }) } : color);
+};
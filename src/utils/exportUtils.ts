@@ -0,0 +1,132 @@
+import { Color, ExportFormat } from '../types/color';
+import { writeGpl, writeAse, writeAco, writeProcreate } from './swatchFormats';
+import { getColorHex8 } from './colorUtils';
+
+export const toTokenName = (name: string): string => {
+  const slug = name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  if (!slug) return 'color';
+  return /^\d/.test(slug) ? `color-${slug}` : slug;
+};
+
+// Same slug twice becomes name, name-2, name-3...
+export const createTokenNames = (colors: Color[]): string[] => {
+  const used = new Set<string>();
+  return colors.map(color => {
+    const base = toTokenName(color.name);
+    let name = base;
+    let suffix = 2;
+    while (used.has(name)) {
+      name = `${base}-${suffix++}`;
+    }
+    used.add(name);
+    return name;
+  });
+};
+
+export const exportTailwindConfig = (colors: Color[]): string => {
+  const names = createTokenNames(colors);
+  const entries = colors
+    .map((color, i) => `        '${names[i]}': '${getColorHex8(color).toLowerCase()}',`)
+    .join('\n');
+  return [
+    '/** @type {import(\'tailwindcss\').Config} */',
+    'export default {',
+    '  theme: {',
+    '    extend: {',
+    '      colors: {',
+    entries,
+    '      },',
+    '    },',
+    '  },',
+    '};',
+    ''
+  ].join('\n');
+};
+
+export const exportScss = (colors: Color[], mapName = 'colors'): string => {
+  const names = createTokenNames(colors);
+  const variables = colors
+    .map((color, i) => `$${names[i]}: ${getColorHex8(color).toLowerCase()};`)
+    .join('\n');
+  const mapEntries = names
+    .map(name => `  '${name}': $${name},`)
+    .join('\n');
+  const mapVariable = names.includes(toTokenName(mapName)) ? `${toTokenName(mapName)}-map` : toTokenName(mapName);
+  return `${variables}\n\n$${mapVariable}: (\n${mapEntries}\n);\n`;
+};
+
+export const exportCssVariables = (colors: Color[]): string => {
+  const names = createTokenNames(colors);
+  const declarations = colors
+    .map((color, i) => `  --${names[i]}: ${getColorHex8(color).toLowerCase()};`)
+    .join('\n');
+  return `:root {\n${declarations}\n}\n`;
+};
+
+// W3C Design Tokens Community Group format
+export const exportDesignTokens = (colors: Color[], groupName = 'color'): string => {
+  const names = createTokenNames(colors);
+  const group: Record<string, { $type: 'color'; $value: string; $description?: string }> = {};
+  colors.forEach((color, i) => {
+    group[names[i]] = {
+      $type: 'color',
+      $value: getColorHex8(color).toLowerCase(),
+      $description: color.name
+    };
+  });
+  return JSON.stringify({ [toTokenName(groupName)]: group }, null, 2) + '\n';
+};
+
+export const exportFormats: { key: ExportFormat; label: string; fileName: string; mimeType: string; binary?: boolean }[] = [
+  { key: 'tailwind', label: 'Tailwind', fileName: 'tailwind.config.js', mimeType: 'text/javascript' },
+  { key: 'scss', label: 'SCSS', fileName: '_colors.scss', mimeType: 'text/x-scss' },
+  { key: 'css', label: 'CSS Variables', fileName: 'colors.css', mimeType: 'text/css' },
+  { key: 'tokens', label: 'Design Tokens', fileName: 'tokens.json', mimeType: 'application/json' },
+  { key: 'gpl', label: 'GIMP / Inkscape', fileName: 'colors.gpl', mimeType: 'text/plain' },
+  { key: 'ase', label: 'Adobe ASE', fileName: 'colors.ase', mimeType: 'application/octet-stream', binary: true },
+  { key: 'aco', label: 'Photoshop ACO', fileName: 'colors.aco', mimeType: 'application/octet-stream', binary: true },
+  { key: 'procreate', label: 'Procreate', fileName: 'colors.swatches', mimeType: 'application/zip', binary: true }
+];
+
+// Swatch formats for design tools are binary; everything else is text
+export const exportColorsAs = (colors: Color[], format: ExportFormat, name = 'colors'): string | Uint8Array => {
+  switch (format) {
+    case 'tailwind':
+      return exportTailwindConfig(colors);
+    case 'scss':
+      return exportScss(colors, name);
+    case 'css':
+      return exportCssVariables(colors);
+    case 'tokens':
+      return exportDesignTokens(colors, name);
+    case 'gpl':
+      return writeGpl(name, colors);
+    case 'ase':
+      return writeAse(name, colors);
+    case 'aco':
+      return writeAco(colors);
+    case 'procreate':
+      return writeProcreate(name, colors);
+  }
+};
+
+export const downloadFile = (content: string | Uint8Array, fileName: string, mimeType: string) => {
+  const linkElement = document.createElement('a');
+  linkElement.setAttribute('download', fileName);
+
+  if (typeof content === 'string') {
+    linkElement.setAttribute('href', `data:${mimeType};charset=utf-8,` + encodeURIComponent(content));
+    linkElement.click();
+    return;
+  }
+
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  linkElement.setAttribute('href', url);
+  linkElement.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
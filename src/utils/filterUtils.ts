@@ -0,0 +1,84 @@
+import { Color, ColorFilters, ColorSortKey } from '../types/color';
+import { getDeltaE, parseCssColor } from './colorUtils';
+
+export const defaultColorFilters: ColorFilters = {
+  hueRange: [0, 360],
+  saturationRange: [0, 100],
+  lightnessRange: [0, 100],
+  tags: [],
+  nearHex: '',
+  maxDistance: 15
+};
+
+export const colorSortOptions: { key: ColorSortKey; label: string }[] = [
+  { key: 'date', label: 'Newest first' },
+  { key: 'name', label: 'Name' },
+  { key: 'hue', label: 'Hue' },
+  { key: 'lightness', label: 'Lightness' }
+];
+
+const inRange = (value: number, [min, max]: [number, number]) => value >= min && value <= max;
+
+// Grays have no meaningful hue, so they only pass when the hue range is unrestricted
+const inHueRange = (color: Color, [min, max]: [number, number]) => {
+  if (max - min >= 360) return true;
+  if (color.hsl.s === 0) return false;
+  const hue = color.hsl.h;
+  return min <= max ? hue >= min && hue <= max : hue >= min || hue <= max;
+};
+
+// The "close to" color, if the field holds something parseable
+export const getNearColor = (filters: ColorFilters): string | null => {
+  return filters.nearHex.trim() ? parseCssColor(filters.nearHex.trim()) : null;
+};
+
+export const countActiveFilters = (filters: ColorFilters): number => {
+  return [
+    filters.hueRange[1] - filters.hueRange[0] < 360,
+    filters.saturationRange[0] > 0 || filters.saturationRange[1] < 100,
+    filters.lightnessRange[0] > 0 || filters.lightnessRange[1] < 100,
+    filters.tags.length > 0,
+    getNearColor(filters) !== null
+  ].filter(Boolean).length;
+};
+
+export const getAllTags = (colors: Color[]): string[] => {
+  const tags = new Set<string>();
+  colors.forEach(color => color.tags?.forEach(tag => tags.add(tag)));
+  return Array.from(tags).sort((a, b) => a.localeCompare(b));
+};
+
+export const filterColors = (colors: Color[], filters: ColorFilters): Color[] => {
+  const nearHex = getNearColor(filters);
+  return colors.filter(color => {
+    if (!inHueRange(color, filters.hueRange)) return false;
+    if (!inRange(color.hsl.s, filters.saturationRange)) return false;
+    if (!inRange(color.hsl.l, filters.lightnessRange)) return false;
+    if (filters.tags.length > 0 && !filters.tags.every(tag => color.tags?.includes(tag))) return false;
+    if (nearHex && getDeltaE(color.hex, nearHex) > filters.maxDistance) return false;
+    return true;
+  });
+};
+
+// Tolerates dates that were serialized as strings
+const timeOf = (color: Color) => new Date(color.createdAt).getTime() || 0;
+
+// A distance search always orders by closeness to the target color
+export const sortColors = (colors: Color[], sortBy: ColorSortKey, nearHex?: string | null): Color[] => {
+  const sorted = [...colors];
+  if (nearHex) {
+    const distances = new Map(colors.map(color => [color.id, getDeltaE(color.hex, nearHex)]));
+    return sorted.sort((a, b) => distances.get(a.id)! - distances.get(b.id)!);
+  }
+
+  switch (sortBy) {
+    case 'name':
+      return sorted.sort((a, b) => a.name.localeCompare(b.name));
+    case 'hue':
+      return sorted.sort((a, b) => a.hsl.h - b.hsl.h || b.hsl.l - a.hsl.l);
+    case 'lightness':
+      return sorted.sort((a, b) => b.hsl.l - a.hsl.l);
+    default:
+      return sorted.sort((a, b) => timeOf(b) - timeOf(a));
+  }
+};
@@ -0,0 +1,137 @@
+import { Gradient, GradientInterpolation, GradientStop, GradientType } from '../types/color';
+import {
+  hexToRgb,
+  rgbToHex,
+  rgbToOklch,
+  oklchToRgb,
+  interpolateColor,
+  interpolateHue,
+  splitHexAlpha,
+  toHex8,
+  generateId
+} from './colorUtils';
+
+export const gradientTypes: { key: GradientType; label: string }[] = [
+  { key: 'linear', label: 'Linear' },
+  { key: 'radial', label: 'Radial' },
+  { key: 'conic', label: 'Conic' }
+];
+
+export const gradientInterpolations: { key: GradientInterpolation; label: string }[] = [
+  { key: 'srgb', label: 'sRGB' },
+  { key: 'oklch', label: 'OKLCH' }
+];
+
+// Stops inserted between each pair of colors in smooth mode
+const SMOOTH_STEPS = 4;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const createGradientStop = (color: string, position: number): GradientStop => {
+  return { id: generateId(), color, position: round(Math.min(100, Math.max(0, position))) };
+};
+
+// Colors are spread evenly from 0% to 100%
+export const createGradient = (name: string, colors: string[]): Gradient => {
+  return {
+    id: generateId(),
+    name: name.trim(),
+    type: 'linear',
+    angle: 90,
+    center: { x: 50, y: 50 },
+    interpolation: 'oklch',
+    smooth: false,
+    stops: colors.map((color, i) => createGradientStop(color, colors.length > 1 ? (i / (colors.length - 1)) * 100 : 0)),
+    createdAt: new Date()
+  };
+};
+
+export const sortStops = (stops: GradientStop[]): GradientStop[] => {
+  return [...stops].sort((a, b) => a.position - b.position);
+};
+
+// OKLCH blend along the shorter hue arc, like `in oklch`; grays take the other color's hue
+const interpolateOklch = (hex1: string, hex2: string, t: number): string => {
+  const a = hexToRgb(hex1);
+  const b = hexToRgb(hex2);
+  const lchA = rgbToOklch(a.r, a.g, a.b);
+  const lchB = rgbToOklch(b.r, b.g, b.b);
+  const hueA = lchA.c < 0.01 ? lchB.h : lchA.h;
+  const hueB = lchB.c < 0.01 ? lchA.h : lchB.h;
+  const rgb = oklchToRgb(
+    lchA.l + (lchB.l - lchA.l) * t,
+    lchA.c + (lchB.c - lchA.c) * t,
+    interpolateHue(hueA, hueB, t)
+  );
+  return rgbToHex(rgb.r, rgb.g, rgb.b);
+};
+
+const mixStopColors = (color1: string, color2: string, t: number, interpolation: GradientInterpolation): string => {
+  const a = splitHexAlpha(color1);
+  const b = splitHexAlpha(color2);
+  const hex = interpolation === 'oklch' ? interpolateOklch(a.hex, b.hex, t) : interpolateColor(a.hex, b.hex, t, 'srgb');
+  return toHex8(hex, Math.round((a.alpha + (b.alpha - a.alpha) * t) * 1000) / 1000);
+};
+
+// The color the gradient shows at a position, used to seed a newly added stop
+export const getColorAt = (stops: GradientStop[], position: number, interpolation: GradientInterpolation): string => {
+  const sorted = sortStops(stops);
+  if (position <= sorted[0].position) return sorted[0].color;
+  const last = sorted[sorted.length - 1];
+  if (position >= last.position) return last.color;
+
+  const index = sorted.findIndex(stop => stop.position >= position);
+  const from = sorted[index - 1];
+  const to = sorted[index];
+  const span = to.position - from.position;
+  return mixStopColors(from.color, to.color, span === 0 ? 0 : (position - from.position) / span, interpolation);
+};
+
+// sRGB blends between distant hues pass through a dull gray; stops computed in OKLCH keep the middle saturated
+export const expandStops = (stops: GradientStop[]): GradientStop[] => {
+  const sorted = sortStops(stops);
+  return sorted.flatMap((stop, i) => {
+    const next = sorted[i + 1];
+    if (!next || next.position === stop.position) return [stop];
+    const between = Array.from({ length: SMOOTH_STEPS }, (_, step) => {
+      const t = (step + 1) / (SMOOTH_STEPS + 1);
+      return {
+        id: `${stop.id}-${step}`,
+        color: mixStopColors(stop.color, next.color, t, 'oklch'),
+        position: round(stop.position + (next.position - stop.position) * t)
+      };
+    });
+    return [stop, ...between];
+  });
+};
+
+const gradientPrefix = (gradient: Gradient, interpolation: GradientInterpolation): string => {
+  const method = interpolation === 'oklch' ? ' in oklch' : '';
+  const at = `at ${round(gradient.center.x)}% ${round(gradient.center.y)}%`;
+  switch (gradient.type) {
+    case 'linear':
+      return `${Math.round(gradient.angle)}deg${method}`;
+    case 'radial':
+      return `circle ${at}${method}`;
+    case 'conic':
+      return `from ${Math.round(gradient.angle)}deg ${at}${method}`;
+  }
+};
+
+// The value for `background`; pass 'srgb' to get the version without an interpolation method
+export const getGradientCss = (gradient: Gradient, interpolation: GradientInterpolation = gradient.interpolation): string => {
+  const stops = gradient.smooth ? expandStops(gradient.stops) : sortStops(gradient.stops);
+  const list = stops.map(stop => `${stop.color.toLowerCase()} ${stop.position}%`).join(', ');
+  return `${gradient.type}-gradient(${gradientPrefix(gradient, interpolation)}, ${list})`;
+};
+
+// Browsers without `in oklch` ignore that line and keep the smoothed sRGB one before it
+export const getGradientDeclaration = (gradient: Gradient): string => {
+  if (gradient.interpolation === 'srgb') return `background: ${getGradientCss(gradient)};`;
+  const fallback = getGradientCss({ ...gradient, smooth: true }, 'srgb');
+  return `background: ${fallback};\nbackground: ${getGradientCss(gradient)};`;
+};
+
+export const supportsOklchInterpolation = (): boolean => {
+  return typeof CSS !== 'undefined' && CSS.supports('background-image', 'linear-gradient(in oklch, red, blue)');
+};
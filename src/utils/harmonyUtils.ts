@@ -0,0 +1,138 @@
+import { Color, HarmonyOptions, HarmonyScheme } from '../types/color';
+import { hexToRgb, rgbToHex, rgbToHsl, hslToRgb, rgbToOklch, oklchToRgb, createColor } from './colorUtils';
+
+// A harmony member relative to the base color: hue offset in degrees,
+// lightness and saturation/chroma offsets in percentage points
+interface HarmonyPoint {
+  name: string;
+  hue: number;
+  lightness: number;
+  saturation: number;
+}
+
+export const harmonySchemes: { key: HarmonyScheme; label: string }[] = [
+  { key: 'classic', label: 'Classic Mix' },
+  { key: 'complementary', label: 'Complementary' },
+  { key: 'analogous', label: 'Analogous' },
+  { key: 'triadic', label: 'Triadic' },
+  { key: 'split-complementary', label: 'Split Complementary' },
+  { key: 'square', label: 'Square (Tetradic)' },
+  { key: 'rectangle', label: 'Rectangle' },
+  { key: 'monochromatic', label: 'Monochromatic' },
+  { key: 'analogous-shades', label: 'Analogous Shades' },
+  { key: 'custom', label: 'Custom Angles' }
+];
+
+export const defaultHarmonyOptions: HarmonyOptions = {
+  scheme: 'classic',
+  space: 'hsl',
+  spread: 30,
+  customAngles: [0, 45, 200],
+  lightnessVariation: 0,
+  saturationVariation: 0
+};
+
+const hues = (name: string, offsets: number[]): HarmonyPoint[] =>
+  offsets.map((hue, i) => ({ name: `${name} ${i + 1}`, hue, lightness: 0, saturation: 0 }));
+
+const getHarmonyPoints = (options: HarmonyOptions): HarmonyPoint[] => {
+  const { spread } = options;
+  const shade = options.lightnessVariation || 15;
+
+  switch (options.scheme) {
+    case 'classic':
+      return [
+        { name: 'Complementary', hue: 180, lightness: 0, saturation: 0 },
+        { name: 'Triadic 1', hue: 120, lightness: 0, saturation: 0 },
+        { name: 'Triadic 2', hue: 240, lightness: 0, saturation: 0 },
+        { name: 'Analogous 1', hue: 30, lightness: 0, saturation: 0 },
+        { name: 'Analogous 2', hue: -30, lightness: 0, saturation: 0 }
+      ];
+    case 'complementary':
+      return hues('Complementary', [0, 180]);
+    case 'analogous':
+      return hues('Analogous', [-2 * spread, -spread, 0, spread, 2 * spread]);
+    case 'triadic':
+      return hues('Triadic', [0, 120, 240]);
+    case 'split-complementary':
+      return hues('Split Complementary', [0, 180 - spread, 180 + spread]);
+    case 'square':
+      return hues('Square', [0, 90, 180, 270]);
+    case 'rectangle':
+      return hues('Rectangle', [0, spread, 180, 180 + spread]);
+    case 'monochromatic':
+      return [-2, -1, 0, 1, 2].map((step, i) => ({
+        name: `Monochromatic ${i + 1}`,
+        hue: 0,
+        lightness: step * shade,
+        saturation: -Math.abs(step) * 5
+      }));
+    case 'analogous-shades':
+      return [-spread, 0, spread].flatMap((hue, i) => [
+        { name: `Analogous Shade ${i + 1} Light`, hue, lightness: shade, saturation: 0 },
+        { name: `Analogous Shade ${i + 1} Dark`, hue, lightness: -shade, saturation: 0 }
+      ]);
+    case 'custom':
+      return hues('Custom', options.customAngles);
+  }
+};
+
+// Members after the first swing alternately above and below the base lightness/saturation
+const VARIATION_PATTERN = [1, -1, 0.5, -0.5];
+
+const variationAt = (index: number, amount: number): number => {
+  return index === 0 ? 0 : amount * VARIATION_PATTERN[(index - 1) % VARIATION_PATTERN.length];
+};
+
+const usesOwnVariation = (scheme: HarmonyScheme) =>
+  scheme === 'monochromatic' || scheme === 'analogous-shades';
+
+export const generateHarmony = (baseColor: string, options: HarmonyOptions = defaultHarmonyOptions): Color[] => {
+  const rgb = hexToRgb(baseColor);
+  const points = getHarmonyPoints(options);
+
+  return points.map((point, index) => {
+    const lightnessOffset = point.lightness +
+      (usesOwnVariation(options.scheme) ? 0 : variationAt(index, options.lightnessVariation));
+    const saturationOffset = point.saturation + variationAt(index, options.saturationVariation);
+
+    let newRgb: { r: number; g: number; b: number };
+
+    if (options.space === 'oklch') {
+      const base = rgbToOklch(rgb.r, rgb.g, rgb.b);
+      newRgb = oklchToRgb(
+        Math.max(0, Math.min(1, base.l + lightnessOffset / 100)),
+        Math.max(0, base.c * (1 + saturationOffset / 100)),
+        ((base.h + point.hue) % 360 + 360) % 360
+      );
+    } else {
+      const base = rgbToHsl(rgb.r, rgb.g, rgb.b);
+      newRgb = hslToRgb(
+        ((base.h + point.hue) % 360 + 360) % 360,
+        Math.max(0, Math.min(100, base.s + saturationOffset)),
+        Math.max(0, Math.min(100, base.l + lightnessOffset))
+      );
+    }
+
+    const newHex = rgbToHex(newRgb.r, newRgb.g, newRgb.b);
+    return createColor(point.name, newHex);
+  });
+};
+
+// Position of a color on the hue wheel of the chosen space: angle in degrees, radius 0-1
+export const getWheelPosition = (hex: string, space: HarmonyOptions['space']): { angle: number; radius: number } => {
+  const rgb = hexToRgb(hex);
+  if (space === 'oklch') {
+    const oklch = rgbToOklch(rgb.r, rgb.g, rgb.b);
+    return { angle: oklch.h, radius: Math.min(1, oklch.c / 0.37) };
+  }
+  const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
+  return { angle: hsl.h, radius: hsl.s / 100 };
+};
+
+export const parseAngles = (value: string): number[] => {
+  return value
+    .split(/[\s,]+/)
+    .map(part => parseFloat(part))
+    .filter(angle => !isNaN(angle));
+};
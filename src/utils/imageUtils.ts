@@ -0,0 +1,135 @@
+import { ExtractedColor, ImageExtractOptions } from '../types/color';
+import { rgbToHex } from './colorUtils';
+
+type Pixel = [number, number, number];
+
+export const defaultImageExtractOptions: ImageExtractOptions = {
+  count: 6,
+  method: 'kmeans'
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The image could not be loaded'));
+    image.src = src;
+  });
+};
+
+// Downscale before sampling; a few tens of thousands of pixels are plenty for dominant colors
+export const getImagePixels = (image: HTMLImageElement, maxSize = 200): Pixel[] => {
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+  context.drawImage(image, 0, 0, width, height);
+
+  const { data } = context.getImageData(0, 0, width, height);
+  const pixels: Pixel[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    // Ignore mostly transparent pixels so logo backgrounds don't dominate
+    if (data[i + 3] < 128) continue;
+    pixels.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  return pixels;
+};
+
+const channelRange = (pixels: Pixel[], channel: number) => {
+  let min = 255;
+  let max = 0;
+  pixels.forEach(pixel => {
+    min = Math.min(min, pixel[channel]);
+    max = Math.max(max, pixel[channel]);
+  });
+  return max - min;
+};
+
+const averagePixel = (pixels: Pixel[]): Pixel => {
+  const sum = pixels.reduce<Pixel>((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]], [0, 0, 0]);
+  return sum.map(v => Math.round(v / pixels.length)) as Pixel;
+};
+
+// Repeatedly split the box with the widest channel range at its median
+const medianCut = (pixels: Pixel[], count: number): Pixel[][] => {
+  const boxes: Pixel[][] = [pixels];
+
+  while (boxes.length < count) {
+    let target = -1;
+    let widest = 0;
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      const range = Math.max(channelRange(box, 0), channelRange(box, 1), channelRange(box, 2));
+      if (range > widest) {
+        widest = range;
+        target = index;
+      }
+    });
+    if (target === -1) break;
+
+    const box = boxes[target];
+    const ranges = [0, 1, 2].map(channel => channelRange(box, channel));
+    const channel = ranges.indexOf(Math.max(...ranges));
+    const sorted = [...box].sort((a, b) => a[channel] - b[channel]);
+    const middle = Math.floor(sorted.length / 2);
+    boxes.splice(target, 1, sorted.slice(0, middle), sorted.slice(middle));
+  }
+
+  return boxes;
+};
+
+const distance = (a: Pixel, b: Pixel) => {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+};
+
+// Lloyd iterations seeded with the median-cut centers, which keeps results stable between runs
+const kMeans = (pixels: Pixel[], count: number, iterations = 12): Pixel[][] => {
+  let centers = medianCut(pixels, count).map(averagePixel);
+  let clusters: Pixel[][] = [];
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    clusters = centers.map(() => []);
+    pixels.forEach(pixel => {
+      let nearest = 0;
+      let best = Infinity;
+      centers.forEach((center, index) => {
+        const d = distance(pixel, center);
+        if (d < best) {
+          best = d;
+          nearest = index;
+        }
+      });
+      clusters[nearest].push(pixel);
+    });
+
+    const next = clusters.map((cluster, index) => cluster.length ? averagePixel(cluster) : centers[index]);
+    const moved = next.some((center, index) => distance(center, centers[index]) > 1);
+    centers = next;
+    if (!moved) break;
+  }
+
+  return clusters.filter(cluster => cluster.length > 0);
+};
+
+export const extractPalette = (pixels: Pixel[], options: ImageExtractOptions): ExtractedColor[] => {
+  if (pixels.length === 0) return [];
+
+  const clusters = options.method === 'kmeans'
+    ? kMeans(pixels, options.count)
+    : medianCut(pixels, options.count);
+
+  const merged = new Map<string, number>();
+  clusters.forEach(cluster => {
+    const [r, g, b] = averagePixel(cluster);
+    const hex = rgbToHex(r, g, b);
+    merged.set(hex, (merged.get(hex) || 0) + cluster.length);
+  });
+
+  return Array.from(merged, ([hex, size]) => ({ hex, share: size / pixels.length }))
+    .sort((a, b) => b.share - a.share);
+};
@@ -0,0 +1,361 @@
+import {
+  Color,
+  ColorPalette,
+  ColorCombination,
+  Gradient,
+  GradientInterpolation,
+  GradientStop,
+  GradientType,
+  LibraryData,
+  ImportIssue,
+  ImportPreview,
+  ImportStrategy,
+  MixSpace,
+  ThemeMapping,
+  ThemeRole,
+  ThemeRoles
+} from '../types/color';
+import { normalizeHex, createColor, generateId, getColorHex8, splitHexAlpha, toHex8 } from './colorUtils';
+import { normalizeTag } from './tagUtils';
+import { ensureUniqueIds } from './duplicateUtils';
+
+// Version 1 is the original unversioned `{ colors, palettes }` file
+export const EXPORT_VERSION = 4;
+
+const MIX_SPACES: MixSpace[] = ['srgb', 'srgb-linear', 'oklab', 'lch'];
+
+const THEME_ROLES: ThemeRole[] = ['background', 'surface', 'primary', 'on-primary', 'border', 'danger', 'success'];
+
+const GRADIENT_TYPES: GradientType[] = ['linear', 'radial', 'conic'];
+
+const GRADIENT_INTERPOLATIONS: GradientInterpolation[] = ['srgb', 'oklch'];
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Tags and notes are optional; anything malformed is dropped rather than rejecting the item
+const readDetails = (raw: RawRecord): { tags?: string[]; note?: string } => {
+  const tags = Array.isArray(raw.tags)
+    ? Array.from(new Set(raw.tags.filter((tag): tag is string => typeof tag === 'string').map(normalizeTag).filter(Boolean)))
+    : [];
+  const note = typeof raw.note === 'string' ? raw.note.trim() : '';
+  return {
+    ...(tags.length > 0 && { tags }),
+    ...(note && { note })
+  };
+};
+
+export const reviveDate = (value: unknown): Date => {
+  const date = value instanceof Date ? value : new Date(value as string);
+  return isNaN(date.getTime()) ? new Date() : date;
+};
+
+export const createExportData = (data: LibraryData) => {
+  return {
+    app: 'devpalette',
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...data
+  };
+};
+
+// Each migration takes the file at version n and returns it at version n + 1
+const migrations: Record<number, (raw: RawRecord) => RawRecord> = {
+  1: (raw) => ({ ...raw, version: 2, combinations: raw.combinations ?? [] }),
+  2: (raw) => ({ ...raw, version: 3, themes: raw.themes ?? [] }),
+  3: (raw) => ({ ...raw, version: 4, gradients: raw.gradients ?? [] })
+};
+
+export const migrateExportData = (raw: RawRecord): { data: RawRecord; version: number } => {
+  const version = typeof raw.version === 'number' ? raw.version : 1;
+  let data = raw;
+  for (let v = version; v < EXPORT_VERSION; v++) {
+    data = migrations[v](data);
+  }
+  return { data, version };
+};
+
+// Derived fields (rgb, hsl, lab, oklch) are always recomputed from the hex value
+export const validateColor = (raw: unknown): { value?: Color; error?: string } => {
+  if (!isRecord(raw)) return { error: 'is not an object' };
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return { error: 'has no name' };
+  const hex = typeof raw.hex === 'string' ? normalizeHex(raw.hex) : null;
+  if (!hex) return { error: `"${raw.name}" has an invalid hex value (${String(raw.hex)})` };
+
+  const color = createColor(raw.name.trim(), hex, typeof raw.id === 'string' && raw.id ? raw.id : generateId());
+  return {
+    value: {
+      ...color,
+      ...readDetails(raw),
+      ...(typeof raw.alpha === 'number' && raw.alpha >= 0 && raw.alpha < 1 && { alpha: raw.alpha }),
+      isFavorite: raw.isFavorite === true,
+      createdAt: reviveDate(raw.createdAt)
+    }
+  };
+};
+
+export const validatePalette = (raw: unknown): { value?: ColorPalette; error?: string } => {
+  if (!isRecord(raw)) return { error: 'is not an object' };
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return { error: 'has no name' };
+  if (!Array.isArray(raw.colors)) return { error: `"${raw.name}" has no color list` };
+
+  const colors: Color[] = [];
+  for (let i = 0; i < raw.colors.length; i++) {
+    const result = validateColor(raw.colors[i]);
+    if (result.error) return { error: `"${raw.name}" color ${i + 1} ${result.error}` };
+    colors.push(result.value!);
+  }
+
+  return {
+    value: {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+      name: raw.name.trim(),
+      colors,
+      createdAt: reviveDate(raw.createdAt),
+      isFavorite: raw.isFavorite === true,
+      ...readDetails(raw)
+    }
+  };
+};
+
+export const validateCombination = (raw: unknown): { value?: ColorCombination; error?: string } => {
+  if (!isRecord(raw)) return { error: 'is not an object' };
+
+  // Legacy entries stored the pair as color1/color2
+  const rawColors = Array.isArray(raw.colors) ? raw.colors : [raw.color1, raw.color2];
+  const colors = rawColors.map(color => typeof color === 'string' ? normalizeHex(color) : null);
+  if (colors.length < 2 || colors.some(color => !color)) return { error: 'has invalid input colors' };
+  const result = typeof raw.result === 'string' ? normalizeHex(raw.result) : null;
+  if (!result) return { error: 'has an invalid result color' };
+
+  const weights = Array.isArray(raw.weights) && raw.weights.length === colors.length &&
+    raw.weights.every(weight => typeof weight === 'number')
+    ? raw.weights as number[]
+    : colors.map(() => 50);
+
+  return {
+    value: {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+      colors: colors as string[],
+      weights,
+      space: MIX_SPACES.includes(raw.space as MixSpace) ? raw.space as MixSpace : 'srgb',
+      result,
+      name: typeof raw.name === 'string' ? raw.name : '',
+      createdAt: reviveDate(raw.createdAt)
+    }
+  };
+};
+
+// Unknown roles are dropped; a malformed color in a known role rejects the theme
+const validateRoles = (raw: unknown, label: string): { value?: ThemeRoles; error?: string } => {
+  if (raw === undefined) return { value: {} };
+  if (!isRecord(raw)) return { error: `has an invalid ${label} mapping` };
+  const roles: ThemeRoles = {};
+  for (const role of THEME_ROLES) {
+    if (raw[role] === undefined) continue;
+    const result = validateColor(raw[role]);
+    if (result.error) return { error: `${label} role "${role}" ${result.error}` };
+    roles[role] = result.value;
+  }
+  return { value: roles };
+};
+
+export const validateTheme = (raw: unknown): { value?: ThemeMapping; error?: string } => {
+  if (!isRecord(raw)) return { error: 'is not an object' };
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return { error: 'has no name' };
+
+  const light = validateRoles(raw.light, 'light');
+  if (light.error) return { error: `"${raw.name}" ${light.error}` };
+  const dark = validateRoles(raw.dark, 'dark');
+  if (dark.error) return { error: `"${raw.name}" ${dark.error}` };
+
+  return {
+    value: {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+      name: raw.name.trim(),
+      light: light.value!,
+      dark: dark.value!,
+      createdAt: reviveDate(raw.createdAt)
+    }
+  };
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === 'number' && isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const validateStop = (raw: unknown): GradientStop | undefined => {
+  if (!isRecord(raw) || typeof raw.color !== 'string') return undefined;
+  const { hex, alpha } = splitHexAlpha(raw.color);
+  const color = normalizeHex(hex);
+  if (!color) return undefined;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+    color: toHex8(color, alpha),
+    position: clamp(raw.position, 0, 100, 0)
+  };
+};
+
+export const validateGradient = (raw: unknown): { value?: Gradient; error?: string } => {
+  if (!isRecord(raw)) return { error: 'is not an object' };
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return { error: 'has no name' };
+  if (!GRADIENT_TYPES.includes(raw.type as GradientType)) return { error: `"${raw.name}" has an unknown type` };
+
+  const stops = Array.isArray(raw.stops)
+    ? raw.stops.map(validateStop).filter((stop): stop is GradientStop => stop !== undefined)
+    : [];
+  if (stops.length < 2) return { error: `"${raw.name}" needs at least two valid color stops` };
+
+  const center = isRecord(raw.center) ? raw.center : {};
+  return {
+    value: {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+      name: raw.name.trim(),
+      type: raw.type as GradientType,
+      angle: clamp(raw.angle, 0, 360, 90),
+      center: { x: clamp(center.x, 0, 100, 50), y: clamp(center.y, 0, 100, 50) },
+      interpolation: GRADIENT_INTERPOLATIONS.includes(raw.interpolation as GradientInterpolation)
+        ? raw.interpolation as GradientInterpolation
+        : 'srgb',
+      smooth: raw.smooth === true,
+      stops: stops.sort((a, b) => a.position - b.position),
+      createdAt: reviveDate(raw.createdAt)
+    }
+  };
+};
+
+const validateSection = <T>(
+  section: ImportIssue['section'],
+  raw: unknown,
+  validate: (item: unknown) => { value?: T; error?: string },
+  issues: ImportIssue[]
+): T[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    issues.push({ section, index: -1, message: `"${section}" is not a list` });
+    return [];
+  }
+  const values: T[] = [];
+  raw.forEach((item, index) => {
+    const result = validate(item);
+    if (result.error) {
+      issues.push({ section, index, message: result.error });
+    } else {
+      values.push(result.value!);
+    }
+  });
+  return values;
+};
+
+export const parseImportFile = (text: string, fileName: string): ImportPreview => {
+  const empty: LibraryData = { colors: [], palettes: [], combinations: [], themes: [], gradients: [] };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { fileName, version: 0, data: empty, issues: [{ section: 'file', index: -1, message: 'The file is not valid JSON' }] };
+  }
+  if (!isRecord(raw)) {
+    return { fileName, version: 0, data: empty, issues: [{ section: 'file', index: -1, message: 'The file does not contain a color library' }] };
+  }
+  if (typeof raw.version === 'number' && raw.version > EXPORT_VERSION) {
+    return {
+      fileName,
+      version: raw.version,
+      data: empty,
+      issues: [{ section: 'file', index: -1, message: `The file was exported by a newer version (v${raw.version})` }]
+    };
+  }
+
+  const { data, version } = migrateExportData(raw);
+  const issues: ImportIssue[] = [];
+
+  return {
+    fileName,
+    version,
+    // Older exports could repeat ids, and every strategy (including replace) relies on them being unique
+    data: {
+      colors: ensureUniqueIds(validateSection('colors', data.colors, validateColor, issues)),
+      palettes: ensureUniqueIds(validateSection('palettes', data.palettes, validatePalette, issues)),
+      combinations: ensureUniqueIds(validateSection('combinations', data.combinations, validateCombination, issues)),
+      themes: ensureUniqueIds(validateSection('themes', data.themes, validateTheme, issues)),
+      gradients: ensureUniqueIds(validateSection('gradients', data.gradients, validateGradient, issues))
+    },
+    issues
+  };
+};
+
+// Incoming items whose id is already taken get a fresh one so id-based updates stay unambiguous
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[], isDuplicate: (item: T) => boolean): T[] => {
+  const ids = new Set(current.map(item => item.id));
+  const added: T[] = [];
+  incoming.forEach(item => {
+    if (isDuplicate(item)) return;
+    const id = ids.has(item.id) ? generateId() : item.id;
+    ids.add(id);
+    added.push({ ...item, id });
+  });
+  return [...current, ...added];
+};
+
+const paletteSignature = (palette: ColorPalette) =>
+  palette.colors.map(color => getColorHex8(color).toLowerCase()).join(',');
+
+const combinationSignature = (combination: ColorCombination) =>
+  `${combination.colors.join(',')}=${combination.result}`;
+
+const themeSignature = (theme: ThemeMapping) =>
+  [theme.light, theme.dark].map(roles => THEME_ROLES.map(role => roles[role] ? getColorHex8(roles[role]!).toLowerCase() : '').join(',')).join('|');
+
+const gradientSignature = (gradient: Gradient) =>
+  `${gradient.type}:${gradient.stops.map(stop => `${stop.color.toLowerCase()}@${stop.position}`).join(',')}`;
+
+export const mergeLibraryData = (current: LibraryData, incoming: LibraryData, strategy: ImportStrategy): LibraryData => {
+  if (strategy === 'replace') return incoming;
+
+  if (strategy === 'skip-duplicate-id') {
+    const colorIds = new Set(current.colors.map(c => c.id));
+    const paletteIds = new Set(current.palettes.map(p => p.id));
+    const combinationIds = new Set(current.combinations.map(c => c.id));
+    const themeIds = new Set(current.themes.map(t => t.id));
+    const gradientIds = new Set(current.gradients.map(g => g.id));
+    return {
+      colors: mergeById(current.colors, incoming.colors, c => colorIds.has(c.id)),
+      palettes: mergeById(current.palettes, incoming.palettes, p => paletteIds.has(p.id)),
+      combinations: mergeById(current.combinations, incoming.combinations, c => combinationIds.has(c.id)),
+      themes: mergeById(current.themes, incoming.themes, t => themeIds.has(t.id)),
+      gradients: mergeById(current.gradients, incoming.gradients, g => gradientIds.has(g.id))
+    };
+  }
+
+  if (strategy === 'skip-duplicate-hex') {
+    // Same hex at another opacity is a different color, as in duplicateUtils
+    const hexes = new Set(current.colors.map(c => getColorHex8(c).toLowerCase()));
+    const paletteSignatures = new Set(current.palettes.map(paletteSignature));
+    const combinationSignatures = new Set(current.combinations.map(combinationSignature));
+    const themeSignatures = new Set(current.themes.map(themeSignature));
+    const gradientSignatures = new Set(current.gradients.map(gradientSignature));
+    return {
+      colors: mergeById(current.colors, incoming.colors, c => {
+        const hex = getColorHex8(c).toLowerCase();
+        const duplicate = hexes.has(hex);
+        hexes.add(hex);
+        return duplicate;
+      }),
+      palettes: mergeById(current.palettes, incoming.palettes, p => paletteSignatures.has(paletteSignature(p))),
+      combinations: mergeById(current.combinations, incoming.combinations, c => combinationSignatures.has(combinationSignature(c))),
+      themes: mergeById(current.themes, incoming.themes, t => themeSignatures.has(themeSignature(t))),
+      gradients: mergeById(current.gradients, incoming.gradients, g => gradientSignatures.has(gradientSignature(g)))
+    };
+  }
+
+  return {
+    colors: mergeById(current.colors, incoming.colors, () => false),
+    palettes: mergeById(current.palettes, incoming.palettes, () => false),
+    combinations: mergeById(current.combinations, incoming.combinations, () => false),
+    themes: mergeById(current.themes, incoming.themes, () => false),
+    gradients: mergeById(current.gradients, incoming.gradients, () => false)
+  };
+};
@@ -0,0 +1,42 @@
+import { Color, ColorPalette } from '../types/color';
+import { generateId } from './colorUtils';
+
+export const createPalette = (name: string, colors: Color[] = []): ColorPalette => {
+  return {
+    id: generateId(),
+    name: name.trim(),
+    colors,
+    createdAt: new Date(),
+    isFavorite: false
+  };
+};
+
+export const duplicatePalette = (palette: ColorPalette): ColorPalette => {
+  return {
+    ...palette,
+    id: generateId(),
+    name: `${palette.name} (copy)`,
+    colors: palette.colors.map(color => ({ ...color })),
+    createdAt: new Date(),
+    isFavorite: false
+  };
+};
+
+// Colors already in the palette (same id) are skipped
+export const addColorsToPalette = (palette: ColorPalette, colors: Color[]): ColorPalette => {
+  const existingIds = new Set(palette.colors.map(color => color.id));
+  const newColors = colors.filter(color => !existingIds.has(color.id));
+  return { ...palette, colors: [...palette.colors, ...newColors] };
+};
+
+export const removeColorFromPalette = (palette: ColorPalette, colorId: string): ColorPalette => {
+  return { ...palette, colors: palette.colors.filter(color => color.id !== colorId) };
+};
+
+export const moveItem = <T>(items: T[], fromIndex: number, toIndex: number): T[] => {
+  if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= items.length) return items;
+  const result = [...items];
+  const [item] = result.splice(fromIndex, 1);
+  result.splice(Math.max(0, Math.min(toIndex, result.length)), 0, item);
+  return result;
+};
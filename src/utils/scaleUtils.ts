@@ -0,0 +1,76 @@
+import { Color, ScaleOptions } from '../types/color';
+import { hexToRgb, rgbToHex, rgbToOklch, oklchToRgb, createColor } from './colorUtils';
+
+export const TAILWIND_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+// OKLCH lightness of the lightest and darkest steps
+const MAX_LIGHTNESS = 0.97;
+const MIN_LIGHTNESS = 0.27;
+
+export const defaultScaleOptions: ScaleOptions = {
+  steps: 11,
+  hueShift: 0,
+  chromaEasing: 'smooth',
+  pinStep: 'auto'
+};
+
+// 11 steps use the Tailwind labels, other counts are spread evenly between 50 and 950
+export const getScaleLabels = (steps: number): number[] => {
+  if (steps === TAILWIND_STEPS.length) return TAILWIND_STEPS;
+  return Array.from({ length: steps }, (_, i) =>
+    Math.round((50 + (i * 900) / (steps - 1)) / 50) * 50
+  );
+};
+
+const easeChroma = (distance: number, easing: ScaleOptions['chromaEasing']): number => {
+  switch (easing) {
+    case 'none':
+      return 1;
+    case 'linear':
+      return 1 - 0.7 * distance;
+    case 'smooth':
+      return 1 - 0.7 * (1 - Math.cos(Math.PI * distance)) / 2;
+  }
+};
+
+export const generateColorScale = (baseColor: string, name: string, options: ScaleOptions = defaultScaleOptions): Color[] => {
+  const steps = Math.max(3, Math.min(19, Math.round(options.steps)));
+  const labels = getScaleLabels(steps);
+  const rgb = hexToRgb(baseColor);
+  const base = rgbToOklch(rgb.r, rgb.g, rgb.b);
+
+  const evenLightness = (i: number) => MAX_LIGHTNESS - (i / (steps - 1)) * (MAX_LIGHTNESS - MIN_LIGHTNESS);
+
+  let pinIndex = options.pinStep === 'auto' ? -1 : labels.indexOf(options.pinStep);
+  if (pinIndex === -1) {
+    pinIndex = 0;
+    labels.forEach((_, i) => {
+      if (Math.abs(evenLightness(i) - base.l) < Math.abs(evenLightness(pinIndex) - base.l)) {
+        pinIndex = i;
+      }
+    });
+  }
+
+  // Piecewise-linear lightness so the pinned step lands exactly on the base color
+  const pinLightness = Math.max(MIN_LIGHTNESS, Math.min(MAX_LIGHTNESS, base.l));
+  const lightnessAt = (i: number) => {
+    if (i < pinIndex) return MAX_LIGHTNESS - (i / pinIndex) * (MAX_LIGHTNESS - pinLightness);
+    if (i > pinIndex) return pinLightness - ((i - pinIndex) / (steps - 1 - pinIndex)) * (pinLightness - MIN_LIGHTNESS);
+    return pinLightness;
+  };
+
+  return labels.map((label, i) => {
+    let hex = baseColor;
+
+    if (i !== pinIndex) {
+      const sideLength = i < pinIndex ? pinIndex : steps - 1 - pinIndex;
+      const distance = Math.abs(i - pinIndex) / sideLength;
+      const chroma = base.c * easeChroma(distance, options.chromaEasing);
+      const hue = base.h + options.hueShift * ((i - pinIndex) / (steps - 1));
+      const newRgb = oklchToRgb(lightnessAt(i), chroma, (hue + 360) % 360);
+      hex = rgbToHex(newRgb.r, newRgb.g, newRgb.b);
+    }
+
+    return createColor(`${name} ${label}`, hex);
+  });
+};
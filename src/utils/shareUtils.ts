@@ -0,0 +1,87 @@
+import { ColorPalette, SharedPalette } from '../types/color';
+import { hexToRgb, rgbToHex } from './colorUtils';
+
+const SHARE_VERSION = 2;
+const HASH_PREFIX = '#palette=';
+
+// Byte layout: version, palette name, color count, then per color r, g, b, alpha and name
+// (version 1 links have no alpha byte). Strings are a length byte followed by UTF-8, so names are capped at 255 bytes.
+const encodeString = (value: string): number[] => {
+  const encoder = new TextEncoder();
+  let chars = Array.from(value);
+  let bytes = encoder.encode(value);
+  while (bytes.length > 255) {
+    chars = chars.slice(0, -1);
+    bytes = encoder.encode(chars.join(''));
+  }
+  return [bytes.length, ...Array.from(bytes)];
+};
+
+const toBase64Url = (bytes: number[]): string => {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+export const encodePalette = (palette: ColorPalette): string => {
+  const colors = palette.colors.slice(0, 255);
+  const bytes = [SHARE_VERSION, ...encodeString(palette.name), colors.length];
+  colors.forEach(color => {
+    const { r, g, b } = hexToRgb(color.hex);
+    bytes.push(r, g, b, Math.round((color.alpha ?? 1) * 255), ...encodeString(color.name));
+  });
+  return toBase64Url(bytes);
+};
+
+export const decodePalette = (encoded: string): SharedPalette | null => {
+  try {
+    const bytes = fromBase64Url(encoded);
+    const decoder = new TextDecoder();
+    let offset = 0;
+
+    const readByte = () => {
+      if (offset >= bytes.length) throw new Error('Truncated palette link');
+      return bytes[offset++];
+    };
+    const readString = () => {
+      const length = readByte();
+      if (offset + length > bytes.length) throw new Error('Truncated palette link');
+      const value = decoder.decode(bytes.subarray(offset, offset + length));
+      offset += length;
+      return value;
+    };
+
+    const version = readByte();
+    if (version < 1 || version > SHARE_VERSION) return null;
+    const name = readString();
+    const count = readByte();
+    const colors = Array.from({ length: count }, () => {
+      const hex = rgbToHex(readByte(), readByte(), readByte());
+      const alpha = version >= 2 ? Math.round((readByte() / 255) * 1000) / 1000 : 1;
+      return { name: readString(), hex, ...(alpha < 1 && { alpha }) };
+    });
+    return { name: name || 'Shared palette', colors };
+  } catch {
+    return null;
+  }
+};
+
+export const getShareUrl = (palette: ColorPalette): string => {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${HASH_PREFIX}${encodePalette(palette)}`;
+};
+
+// Returns undefined when the hash holds no palette, null when it holds a broken one
+export const readSharedPaletteFromHash = (hash: string): SharedPalette | null | undefined => {
+  if (!hash.startsWith(HASH_PREFIX)) return undefined;
+  return decodePalette(hash.slice(HASH_PREFIX.length));
+};
+
+export const clearShareHash = () => {
+  const { pathname, search } = window.location;
+  window.history.replaceState(null, '', `${pathname}${search}`);
+};
@@ -0,0 +1,318 @@
+import { Color, ColorCombination, ColorPalette, Gradient, LibraryData, ThemeMapping, ThemeRoles } from '../types/color';
+import { reviveDate, validateColor, validatePalette, validateCombination } from './libraryData';
+import { ensureUniqueIds } from './duplicateUtils';
+
+export type StorageCollection = keyof LibraryData;
+
+export interface LibraryStorage {
+  backend: 'indexeddb' | 'localstorage';
+  load: () => Promise<LibraryData>;
+  loadCollection: <K extends StorageCollection>(collection: K) => Promise<LibraryData[K]>;
+  // `previous` is what was last saved, so unchanged items can be skipped
+  save: <K extends StorageCollection>(collection: K, items: LibraryData[K], previous: LibraryData[K]) => Promise<void>;
+  subscribe: (listener: (collection: StorageCollection) => void) => () => void;
+}
+
+// Version 0 is the original unversioned localStorage layout
+export const STORAGE_VERSION = 3;
+
+const COLLECTIONS: StorageCollection[] = ['colors', 'palettes', 'combinations', 'themes', 'gradients'];
+
+const LEGACY_KEYS: Record<StorageCollection, string> = {
+  colors: 'color-palette-colors',
+  palettes: 'color-palette-palettes',
+  combinations: 'color-palette-combinations',
+  themes: 'color-palette-themes',
+  gradients: 'color-palette-gradients'
+};
+
+const VERSION_KEY = 'color-palette-storage-version';
+// Set once the library lives in IndexedDB; from then on localStorage only holds a stale copy
+const BACKEND_KEY = 'color-palette-storage-backend';
+const DB_NAME = 'devpalette';
+// Bumped whenever a collection (object store) is added
+const DB_VERSION = 3;
+const CHANNEL_NAME = 'devpalette-library';
+
+const emptyLibrary = (): LibraryData => ({ colors: [], palettes: [], combinations: [], themes: [], gradients: [] });
+
+const validItems = <T>(raw: unknown, validate: (item: unknown) => { value?: T }): T[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(item => validate(item).value).filter((item): item is T => item !== undefined);
+};
+
+// Each migration takes the library at version n and returns it at version n + 1
+const migrations: Record<number, (data: LibraryData) => LibraryData> = {
+  // Legacy data could hold repeated ids and two-color combinations stored as color1/color2
+  0: (data) => ({
+    ...data,
+    colors: ensureUniqueIds(validItems(data.colors, validateColor)),
+    palettes: ensureUniqueIds(validItems(data.palettes, validatePalette)),
+    combinations: ensureUniqueIds(validItems(data.combinations, validateCombination))
+  }),
+  // Theme mappings were added
+  1: (data) => ({ ...data, themes: Array.isArray(data.themes) ? data.themes : [] }),
+  // Saved gradients were added
+  2: (data) => ({ ...data, gradients: Array.isArray(data.gradients) ? data.gradients : [] })
+};
+
+const migrate = (data: LibraryData, version: number): LibraryData => {
+  let result = data;
+  for (let v = version; v < STORAGE_VERSION; v++) {
+    result = migrations[v](result);
+  }
+  return result;
+};
+
+// JSON turns dates into strings; bring them back on every load
+const reviveColor = (color: Color): Color => ({ ...color, createdAt: reviveDate(color.createdAt) });
+
+const reviveRoles = (roles: ThemeRoles): ThemeRoles =>
+  Object.fromEntries(Object.entries(roles).map(([role, color]) => [role, color && reviveColor(color)]));
+
+const revive = <K extends StorageCollection>(collection: K, items: LibraryData[K]): LibraryData[K] => {
+  switch (collection) {
+    case 'colors':
+      return (items as Color[]).map(reviveColor) as LibraryData[K];
+    case 'palettes':
+      return (items as ColorPalette[]).map(palette => ({
+        ...palette,
+        colors: palette.colors.map(reviveColor),
+        createdAt: reviveDate(palette.createdAt)
+      })) as LibraryData[K];
+    case 'themes':
+      return (items as ThemeMapping[]).map(theme => ({
+        ...theme,
+        light: reviveRoles(theme.light),
+        dark: reviveRoles(theme.dark),
+        createdAt: reviveDate(theme.createdAt)
+      })) as LibraryData[K];
+    case 'gradients':
+      return (items as Gradient[]).map(gradient => ({
+        ...gradient,
+        createdAt: reviveDate(gradient.createdAt)
+      })) as LibraryData[K];
+    default:
+      return (items as ColorCombination[]).map(combination => ({
+        ...combination,
+        createdAt: reviveDate(combination.createdAt)
+      })) as LibraryData[K];
+  }
+};
+
+export const isQuotaError = (error: unknown): boolean => {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22);
+};
+
+export const describeStorageError = (error: unknown): string => {
+  if (isQuotaError(error)) {
+    return 'Browser storage is full, so your latest changes were not saved. Export your library and remove colors or palettes you no longer need.';
+  }
+  return `Your latest changes could not be saved: ${error instanceof Error ? error.message : String(error)}`;
+};
+
+const loadAll = async (loadCollection: LibraryStorage['loadCollection']): Promise<LibraryData> => ({
+  colors: await loadCollection('colors'),
+  palettes: await loadCollection('palettes'),
+  combinations: await loadCollection('combinations'),
+  themes: await loadCollection('themes'),
+  gradients: await loadCollection('gradients')
+});
+
+const readLegacyLibrary = (): { data: LibraryData; version: number } => {
+  const data = emptyLibrary();
+  COLLECTIONS.forEach(collection => {
+    const raw = window.localStorage.getItem(LEGACY_KEYS[collection]);
+    if (raw) (data as Record<StorageCollection, unknown>)[collection] = JSON.parse(raw);
+  });
+  return { data, version: parseInt(window.localStorage.getItem(VERSION_KEY) || '0') || 0 };
+};
+
+// Tabs announce their writes; localStorage writes also reach other tabs through the storage event
+const createSync = () => {
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  const notify = (collection: StorageCollection) => {
+    channel?.postMessage({ collection });
+  };
+
+  const subscribe = (listener: (collection: StorageCollection) => void) => {
+    const handleMessage = (event: MessageEvent) => {
+      if (COLLECTIONS.includes(event.data?.collection)) listener(event.data.collection);
+    };
+    const handleStorage = (event: StorageEvent) => {
+      const collection = COLLECTIONS.find(c => LEGACY_KEYS[c] === event.key);
+      if (collection && !channel) listener(collection);
+    };
+    channel?.addEventListener('message', handleMessage);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      channel?.removeEventListener('message', handleMessage);
+      window.removeEventListener('storage', handleStorage);
+    };
+  };
+
+  return { notify, subscribe };
+};
+
+const createLocalStorageBackend = (): LibraryStorage => {
+  const sync = createSync();
+
+  const write = (collection: StorageCollection, items: unknown[]) => {
+    window.localStorage.setItem(LEGACY_KEYS[collection], JSON.stringify(items));
+  };
+
+  const loadCollection = async <K extends StorageCollection>(collection: K): Promise<LibraryData[K]> => {
+    const raw = window.localStorage.getItem(LEGACY_KEYS[collection]);
+    return revive(collection, (raw ? JSON.parse(raw) : []) as LibraryData[K]);
+  };
+
+  return {
+    backend: 'localstorage',
+    load: async () => {
+      const { data, version } = readLegacyLibrary();
+      if (version < STORAGE_VERSION) {
+        const migrated = migrate(data, version);
+        COLLECTIONS.forEach(collection => write(collection, migrated[collection]));
+        window.localStorage.setItem(VERSION_KEY, String(STORAGE_VERSION));
+      }
+      return loadAll(loadCollection);
+    },
+    loadCollection,
+    save: async (collection, items) => {
+      write(collection, items);
+      sync.notify(collection);
+    },
+    subscribe: sync.subscribe
+  };
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      COLLECTIONS.forEach(collection => {
+        if (!db.objectStoreNames.contains(collection)) db.createObjectStore(collection, { keyPath: 'id' });
+      });
+      if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('The database is blocked by another tab'));
+  });
+};
+
+// Items live in one object store per collection, so a change only rewrites the items that changed
+const createIndexedDbBackend = async (): Promise<LibraryStorage> => {
+  const db = await openDatabase();
+  const sync = createSync();
+  window.localStorage.setItem(BACKEND_KEY, 'indexeddb');
+
+  const writeAll = async (data: LibraryData) => {
+    const transaction = db.transaction([...COLLECTIONS, 'meta'], 'readwrite');
+    COLLECTIONS.forEach(collection => {
+      const store = transaction.objectStore(collection);
+      store.clear();
+      (data[collection] as { id: string }[]).forEach(item => store.put(item));
+      transaction.objectStore('meta').put(data[collection].map(item => item.id), `${collection}-order`);
+    });
+    transaction.objectStore('meta').put(STORAGE_VERSION, 'version');
+    await transactionDone(transaction);
+  };
+
+  const loadCollection = async <K extends StorageCollection>(collection: K): Promise<LibraryData[K]> => {
+    const transaction = db.transaction([collection, 'meta'], 'readonly');
+    const [items, order] = await Promise.all([
+      promisify(transaction.objectStore(collection).getAll()),
+      promisify(transaction.objectStore('meta').get(`${collection}-order`))
+    ]);
+    const position = new Map<string, number>((order as string[] | undefined)?.map((id, i) => [id, i]) ?? []);
+    const sorted = (items as { id: string }[]).sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+    return revive(collection, sorted as LibraryData[K]);
+  };
+
+  const load = async (): Promise<LibraryData> => {
+    const version = await promisify(db.transaction('meta', 'readonly').objectStore('meta').get('version'));
+
+    // First run: bring over whatever the localStorage version of the app saved
+    if (typeof version !== 'number') {
+      const legacy = readLegacyLibrary();
+      await writeAll(migrate(legacy.data, legacy.version));
+    } else if (version < STORAGE_VERSION) {
+      await writeAll(migrate(await loadAll(loadCollection), version));
+    }
+
+    return loadAll(loadCollection);
+  };
+
+  return {
+    backend: 'indexeddb',
+    load,
+    loadCollection,
+    save: async (collection, items, previous) => {
+      const before = new Map((previous as { id: string }[]).map(item => [item.id, item]));
+      const ids = new Set(items.map(item => item.id));
+      const transaction = db.transaction([collection, 'meta'], 'readwrite');
+      const store = transaction.objectStore(collection);
+
+      (items as { id: string }[]).forEach(item => {
+        if (before.get(item.id) !== item) store.put(item);
+      });
+      before.forEach((_, id) => {
+        if (!ids.has(id)) store.delete(id);
+      });
+      transaction.objectStore('meta').put(items.map(item => item.id), `${collection}-order`);
+
+      await transactionDone(transaction);
+      sync.notify(collection);
+    },
+    subscribe: sync.subscribe
+  };
+};
+
+const hasIndexedDbLibrary = async (): Promise<boolean> => {
+  if (window.localStorage.getItem(BACKEND_KEY) === 'indexeddb') return true;
+  try {
+    const databases = await window.indexedDB.databases?.();
+    return !!databases?.some(db => db.name === DB_NAME);
+  } catch {
+    return false;
+  }
+};
+
+// IndexedDB can be missing or refused (e.g. some private browsing modes); fall back to localStorage.
+// Once the library has moved to IndexedDB, falling back would show and then save over the stale
+// localStorage copy, so a database that cannot be opened is reported instead
+export const openLibraryStorage = async (): Promise<LibraryStorage> => {
+  if (typeof window.indexedDB !== 'undefined') {
+    try {
+      return await createIndexedDbBackend();
+    } catch (error) {
+      if (await hasIndexedDbLibrary()) {
+        console.error('The library database could not be opened:', error);
+        throw new Error(
+          'Storage is blocked. Another DevPalette tab may be running an older version; close other tabs and reload. Changes are not saved until then.'
+        );
+      }
+      console.warn('IndexedDB is unavailable, using localStorage instead:', error);
+    }
+  }
+  return createLocalStorageBackend();
+};
@@ -0,0 +1,363 @@
+import { Color, SwatchFile } from '../types/color';
+import {
+  createColor,
+  generateId,
+  labToRgb,
+  hsvToRgb,
+  rgbToHsv,
+  rgbToHex,
+  toHex8,
+  parseCssColorWithAlpha
+} from './colorUtils';
+import { readZipEntries, createZip } from './zipUtils';
+import { suggestColorName } from './colorNames';
+
+const toColor = (name: string, hex: string): Color => {
+  return createColor(name.trim() || suggestColorName(hex), hex, generateId());
+};
+
+const fromRgbUnit = (r: number, g: number, b: number): string => {
+  const channel = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 255);
+  return rgbToHex(channel(r), channel(g), channel(b));
+};
+
+const cmykToHex = (c: number, m: number, y: number, k: number): string => {
+  return fromRgbUnit((1 - c) * (1 - k), (1 - m) * (1 - k), (1 - y) * (1 - k));
+};
+
+const labToHex = (l: number, a: number, b: number): string => {
+  const rgb = labToRgb(l, a, b);
+  return rgbToHex(rgb.r, rgb.g, rgb.b);
+};
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// GIMP palette (.gpl)
+export const parseGpl = (text: string, fileName: string): SwatchFile => {
+  const lines = text.split(/\r?\n/);
+  if (!lines[0]?.startsWith('GIMP Palette')) throw new Error('Not a GIMP palette');
+
+  let name = baseName(fileName);
+  const colors: Color[] = [];
+
+  lines.slice(1).forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('Columns:')) return;
+    if (trimmed.startsWith('Name:')) {
+      name = trimmed.slice(5).trim() || name;
+      return;
+    }
+    const match = /^(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/.exec(trimmed);
+    if (match) {
+      const [r, g, b] = [match[1], match[2], match[3]].map(v => Math.min(255, parseInt(v)));
+      const hex = rgbToHex(r, g, b);
+      colors.push(toColor(match[4] === 'Untitled' ? '' : match[4], hex));
+    }
+  });
+
+  return { name, colors };
+};
+
+export const writeGpl = (name: string, colors: Color[]): string => {
+  const rows = colors.map(color => {
+    const { r, g, b } = color.rgb;
+    return `${String(r).padStart(3)} ${String(g).padStart(3)} ${String(b).padStart(3)}\t${color.name}`;
+  });
+  return ['GIMP Palette', `Name: ${name}`, 'Columns: 0', '#', ...rows, ''].join('\n');
+};
+
+// Adobe Swatch Exchange (.ase), big-endian
+export const parseAse = (buffer: ArrayBuffer, fileName: string): SwatchFile => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12 || view.getUint32(0) !== 0x41534546) throw new Error('Not an Adobe Swatch Exchange file');
+
+  const readName = (offset: number): { value: string; next: number } => {
+    const length = view.getUint16(offset);
+    let value = '';
+    for (let i = 0; i < length - 1; i++) {
+      value += String.fromCharCode(view.getUint16(offset + 2 + i * 2));
+    }
+    return { value, next: offset + 2 + length * 2 };
+  };
+
+  const blockCount = view.getUint32(8);
+  let offset = 12;
+  let name = baseName(fileName);
+  const colors: Color[] = [];
+
+  for (let i = 0; i < blockCount && offset < buffer.byteLength; i++) {
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const body = offset + 6;
+
+    if (type === 0xc001 && colors.length === 0) {
+      name = readName(body).value || name;
+    } else if (type === 0x0001) {
+      const entryName = readName(body);
+      let cursor = entryName.next;
+      const model = String.fromCharCode(...[0, 1, 2, 3].map(k => view.getUint8(cursor + k))).trim();
+      cursor += 4;
+      const values = (count: number) => Array.from({ length: count }, (_, k) => view.getFloat32(cursor + k * 4));
+
+      let hex: string | null = null;
+      if (model === 'RGB') {
+        const [r, g, b] = values(3);
+        hex = fromRgbUnit(r, g, b);
+      } else if (model === 'CMYK') {
+        const [c, m, y, k] = values(4);
+        hex = cmykToHex(c, m, y, k);
+      } else if (model === 'LAB') {
+        const [l, a, b] = values(3);
+        hex = labToHex(l <= 1 ? l * 100 : l, a, b);
+      } else if (model === 'Gray') {
+        const [gray] = values(1);
+        hex = fromRgbUnit(gray, gray, gray);
+      }
+      if (hex) colors.push(toColor(entryName.value, hex));
+    }
+
+    offset = body + length;
+  }
+
+  return { name, colors };
+};
+
+export const writeAse = (name: string, colors: Color[]): Uint8Array => {
+  // UTF-16 code units, so characters outside the BMP are written as surrogate pairs
+  const encodeName = (value: string) => {
+    const chars = Array.from({ length: value.length }, (_, i) => value.charCodeAt(i));
+    return [...chars, 0];
+  };
+
+  const groupName = encodeName(name);
+  const blocks: { type: number; body: DataView }[] = [];
+
+  const groupBody = new DataView(new ArrayBuffer(2 + groupName.length * 2));
+  groupBody.setUint16(0, groupName.length);
+  groupName.forEach((code, i) => groupBody.setUint16(2 + i * 2, code));
+  blocks.push({ type: 0xc001, body: groupBody });
+
+  colors.forEach(color => {
+    const chars = encodeName(color.name);
+    const body = new DataView(new ArrayBuffer(2 + chars.length * 2 + 4 + 12 + 2));
+    body.setUint16(0, chars.length);
+    chars.forEach((code, i) => body.setUint16(2 + i * 2, code));
+    let cursor = 2 + chars.length * 2;
+    'RGB '.split('').forEach((ch, i) => body.setUint8(cursor + i, ch.charCodeAt(0)));
+    cursor += 4;
+    [color.rgb.r, color.rgb.g, color.rgb.b].forEach((v, i) => body.setFloat32(cursor + i * 4, v / 255));
+    body.setUint16(cursor + 12, 2); // normal (non-global, non-spot) color
+    blocks.push({ type: 0x0001, body });
+  });
+
+  blocks.push({ type: 0xc002, body: new DataView(new ArrayBuffer(0)) });
+
+  const size = 12 + blocks.reduce((sum, block) => sum + 6 + block.body.byteLength, 0);
+  const out = new DataView(new ArrayBuffer(size));
+  out.setUint32(0, 0x41534546);
+  out.setUint16(4, 1);
+  out.setUint16(6, 0);
+  out.setUint32(8, blocks.length);
+
+  let offset = 12;
+  blocks.forEach(block => {
+    out.setUint16(offset, block.type);
+    out.setUint32(offset + 2, block.body.byteLength);
+    new Uint8Array(out.buffer).set(new Uint8Array(block.body.buffer), offset + 6);
+    offset += 6 + block.body.byteLength;
+  });
+
+  return new Uint8Array(out.buffer);
+};
+
+// Photoshop color swatches (.aco); version 2 sections carry names
+export const parseAco = (buffer: ArrayBuffer, fileName: string): SwatchFile => {
+  const view = new DataView(buffer);
+
+  const readSection = (start: number, withNames: boolean): { colors: Color[]; end: number } => {
+    const version = view.getUint16(start);
+    if (version !== (withNames ? 2 : 1)) throw new Error('Unsupported .aco version');
+    const count = view.getUint16(start + 2);
+    let offset = start + 4;
+    const colors: Color[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const space = view.getUint16(offset);
+      const [w, x, y, z] = [2, 4, 6, 8].map(k => view.getUint16(offset + k));
+      offset += 10;
+
+      let name = '';
+      if (withNames) {
+        const length = view.getUint32(offset);
+        for (let k = 0; k < length - 1; k++) {
+          name += String.fromCharCode(view.getUint16(offset + 4 + k * 2));
+        }
+        offset += 4 + length * 2;
+      }
+
+      let hex: string | null = null;
+      if (space === 0) {
+        hex = fromRgbUnit(w / 65535, x / 65535, y / 65535);
+      } else if (space === 1) {
+        const rgb = hsvToRgb((w / 65536) * 360, x / 655.35, y / 655.35);
+        hex = rgbToHex(rgb.r, rgb.g, rgb.b);
+      } else if (space === 2) {
+        hex = cmykToHex(1 - w / 65535, 1 - x / 65535, 1 - y / 65535, 1 - z / 65535);
+      } else if (space === 7) {
+        const signed = (v: number) => (v > 32767 ? v - 65536 : v);
+        hex = labToHex(w / 100, signed(x) / 100, signed(y) / 100);
+      } else if (space === 8) {
+        const gray = 1 - w / 10000;
+        hex = fromRgbUnit(gray, gray, gray);
+      }
+      if (hex) colors.push(toColor(name, hex));
+    }
+
+    return { colors, end: offset };
+  };
+
+  const v1 = readSection(0, false);
+  const colors = v1.end < buffer.byteLength ? readSection(v1.end, true).colors : v1.colors;
+  return { name: baseName(fileName), colors };
+};
+
+export const writeAco = (colors: Color[]): Uint8Array => {
+  const v1Size = 4 + colors.length * 10;
+  const v2Size = 4 + colors.reduce((sum, color) => sum + 10 + 4 + (color.name.length + 1) * 2, 0);
+  const view = new DataView(new ArrayBuffer(v1Size + v2Size));
+
+  const writeColor = (offset: number, color: Color) => {
+    view.setUint16(offset, 0);
+    view.setUint16(offset + 2, color.rgb.r * 257);
+    view.setUint16(offset + 4, color.rgb.g * 257);
+    view.setUint16(offset + 6, color.rgb.b * 257);
+    view.setUint16(offset + 8, 0);
+    return offset + 10;
+  };
+
+  view.setUint16(0, 1);
+  view.setUint16(2, colors.length);
+  let offset = 4;
+  colors.forEach(color => {
+    offset = writeColor(offset, color);
+  });
+
+  view.setUint16(offset, 2);
+  view.setUint16(offset + 2, colors.length);
+  offset += 4;
+  colors.forEach(color => {
+    offset = writeColor(offset, color);
+    view.setUint32(offset, color.name.length + 1);
+    // The length above counts UTF-16 code units, so write exactly those
+    for (let i = 0; i < color.name.length; i++) {
+      view.setUint16(offset + 4 + i * 2, color.name.charCodeAt(i));
+    }
+    offset += 4 + (color.name.length + 1) * 2;
+  });
+
+  return new Uint8Array(view.buffer);
+};
+
+// Procreate (.swatches): a ZIP holding Swatches.json with HSB values in 0-1
+interface ProcreateSwatch {
+  hue: number;
+  saturation: number;
+  brightness: number;
+  alpha?: number;
+  colorSpace?: number;
+}
+
+export const parseProcreate = async (buffer: ArrayBuffer, fileName: string): Promise<SwatchFile> => {
+  const entries = await readZipEntries(buffer);
+  const entry = entries.find(e => e.name.endsWith('Swatches.json'));
+  if (!entry) throw new Error('Swatches.json not found in the Procreate file');
+
+  const json = JSON.parse(new TextDecoder().decode(entry.data));
+  const palette = Array.isArray(json) ? json[0] : json;
+  const swatches: (ProcreateSwatch | null)[] = Array.isArray(palette?.swatches) ? palette.swatches : [];
+
+  const colors = swatches
+    .filter((swatch): swatch is ProcreateSwatch => !!swatch && typeof swatch.hue === 'number')
+    .map(swatch => {
+      const rgb = hsvToRgb(swatch.hue * 360, swatch.saturation * 100, swatch.brightness * 100);
+      return toColor('', rgbToHex(rgb.r, rgb.g, rgb.b));
+    });
+
+  return { name: typeof palette?.name === 'string' && palette.name ? palette.name : baseName(fileName), colors };
+};
+
+export const writeProcreate = (name: string, colors: Color[]): Uint8Array => {
+  const swatches = colors.map(color => {
+    const hsv = rgbToHsv(color.rgb.r, color.rgb.g, color.rgb.b);
+    return {
+      hue: hsv.h / 360,
+      saturation: hsv.s / 100,
+      brightness: hsv.v / 100,
+      alpha: 1,
+      origin: 1,
+      colorSpace: 0,
+      colorModel: 0,
+      brushVersion: 0
+    };
+  });
+  const json = JSON.stringify([{ name, swatches }]);
+  return createZip([{ name: 'Swatches.json', data: new TextEncoder().encode(json) }]);
+};
+
+// CSS / SCSS / LESS: named custom properties and variables first, then any other color literal
+const COLOR_LITERAL = /#[0-9a-fA-F]{3,8}\b|rgba?\([^)]*\)|hsla?\([^)]*\)/g;
+
+// Declaration values only, so ID selectors like #add-button or #face are not read as colors
+const DECLARATION_VALUE = /:\s*([^;{}]+)(?=[;}])/g;
+
+export const parseCssColors = (text: string, fileName: string): SwatchFile => {
+  const seen = new Set<string>();
+  const colors: Color[] = [];
+
+  const add = (name: string, literal: string) => {
+    const parsed = parseCssColorWithAlpha(literal);
+    if (!parsed) return;
+    // rgba() and 8-digit hex keep their alpha
+    const hex = toHex8(parsed.hex, parsed.alpha);
+    if (seen.has(hex)) return;
+    seen.add(hex);
+    colors.push({ ...toColor(name, parsed.hex), ...(parsed.alpha < 1 && { alpha: parsed.alpha }) });
+  };
+
+  const declaration = /(?:--|\$|@)([\w-]+)\s*:\s*([^;]+);/g;
+  let match: RegExpExecArray | null;
+  while ((match = declaration.exec(text)) !== null) {
+    const literal = match[2].match(COLOR_LITERAL)?.[0];
+    if (literal) add(match[1].replace(/[-_]+/g, ' '), literal);
+  }
+
+  while ((match = DECLARATION_VALUE.exec(text)) !== null) {
+    (match[1].match(COLOR_LITERAL) || []).forEach(literal => add('', literal));
+  }
+
+  return { name: baseName(fileName), colors };
+};
+
+export const SWATCH_FILE_EXTENSIONS = ['.ase', '.aco', '.gpl', '.swatches', '.css', '.scss', '.sass', '.less'];
+
+export const parseSwatchFile = async (file: File): Promise<SwatchFile> => {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+
+  switch (extension) {
+    case '.ase':
+      return parseAse(await file.arrayBuffer(), file.name);
+    case '.aco':
+      return parseAco(await file.arrayBuffer(), file.name);
+    case '.gpl':
+      return parseGpl(await file.text(), file.name);
+    case '.swatches':
+      return parseProcreate(await file.arrayBuffer(), file.name);
+    case '.css':
+    case '.scss':
+    case '.sass':
+    case '.less':
+      return parseCssColors(await file.text(), file.name);
+    default:
+      throw new Error(`Unsupported file type: ${extension}`);
+  }
+};
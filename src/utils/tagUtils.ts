@@ -0,0 +1,29 @@
+// Tags are stored lowercase with dashes so "Dark mode" and "dark-mode" are the same tag
+export const normalizeTag = (tag: string): string => {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+};
+
+export const parseTags = (input: string): string[] => {
+  return Array.from(new Set(input.split(',').map(normalizeTag).filter(Boolean)));
+};
+
+export const addTags = (current: string[] = [], tags: string[]): string[] => {
+  return Array.from(new Set([...current, ...tags]));
+};
+
+export const removeTags = (current: string[] = [], tags: string[]): string[] => {
+  return current.filter(tag => !tags.includes(tag));
+};
+
+// Bulk-edits tags of the items whose id is in the set
+export const updateTagsOf = <T extends { id: string; tags?: string[] }>(
+  items: T[],
+  ids: Set<string>,
+  tags: string[],
+  mode: 'add' | 'remove'
+): T[] => {
+  return items.map(item => {
+    if (!ids.has(item.id)) return item;
+    return { ...item, tags: mode === 'add' ? addTags(item.tags, tags) : removeTags(item.tags, tags) };
+  });
+};
@@ -0,0 +1,177 @@
+import { Color, RoleContrastCheck, ThemeMapping, ThemeMode, ThemeRole, ThemeRoles } from '../types/color';
+import {
+  rgbToHex,
+  rgbToOklch,
+  oklchToRgb,
+  createColor,
+  generateId,
+  getColorHex8,
+  getContrastRatio
+} from './colorUtils';
+
+export const themeRoles: { key: ThemeRole; label: string; description: string }[] = [
+  { key: 'background', label: 'Background', description: 'Page background' },
+  { key: 'surface', label: 'Surface', description: 'Cards, menus and dialogs' },
+  { key: 'primary', label: 'Primary', description: 'Buttons, links and focus rings' },
+  { key: 'on-primary', label: 'On Primary', description: 'Text and icons on primary' },
+  { key: 'border', label: 'Border', description: 'Dividers and input outlines' },
+  { key: 'danger', label: 'Danger', description: 'Errors and destructive actions' },
+  { key: 'success', label: 'Success', description: 'Confirmations and valid states' }
+];
+
+export const themeModes: { key: ThemeMode; label: string }[] = [
+  { key: 'light', label: 'Light' },
+  { key: 'dark', label: 'Dark' }
+];
+
+// 4.5:1 for text (WCAG 1.4.3), 3:1 for UI components and graphics (WCAG 1.4.11)
+export const ROLE_CONTRAST_PAIRS: { foreground: ThemeRole; background: ThemeRole; minRatio: number }[] = [
+  { foreground: 'on-primary', background: 'primary', minRatio: 4.5 },
+  { foreground: 'primary', background: 'background', minRatio: 3 },
+  { foreground: 'primary', background: 'surface', minRatio: 3 },
+  { foreground: 'border', background: 'background', minRatio: 3 },
+  { foreground: 'danger', background: 'background', minRatio: 3 },
+  { foreground: 'success', background: 'background', minRatio: 3 }
+];
+
+export const createThemeMapping = (name: string, light: ThemeRoles = {}, dark: ThemeRoles = {}): ThemeMapping => {
+  return {
+    id: generateId(),
+    name: name.trim(),
+    light,
+    dark,
+    createdAt: new Date()
+  };
+};
+
+const oklchOf = (color: Color) => rgbToOklch(color.rgb.r, color.rgb.g, color.rgb.b);
+
+const hexFromOklch = (l: number, c: number, h: number): string => {
+  const rgb = oklchToRgb(l, c, h);
+  return rgbToHex(rgb.r, rgb.g, rgb.b);
+};
+
+const hueDistance = (a: number, b: number) => {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+};
+
+// Picks a starting light-mode mapping from any set of colors: neutrals by lightness, accents by chroma and hue
+export const suggestThemeRoles = (colors: Color[]): ThemeRoles => {
+  if (colors.length === 0) return {};
+  const entries = colors.map(color => ({ color, ...oklchOf(color) }));
+  const byLightness = [...entries].sort((a, b) => b.l - a.l);
+  const accents = entries.filter(entry => entry.c >= 0.06);
+  const closestHue = (hue: number) => accents.length > 0
+    ? [...accents].sort((a, b) => hueDistance(a.h, hue) - hueDistance(b.h, hue))[0].color
+    : undefined;
+
+  const background = byLightness[0].color;
+  const primary = [...entries].sort((a, b) => b.c - a.c)[0].color;
+  const onPrimary = [...entries]
+    .filter(entry => entry.color.id !== primary.id)
+    .sort((a, b) => getContrastRatio(b.color.hex, primary.hex) - getContrastRatio(a.color.hex, primary.hex))[0]?.color;
+
+  return {
+    background,
+    surface: byLightness[1]?.color ?? background,
+    primary,
+    ...(onPrimary && { 'on-primary': onPrimary }),
+    // The lightest neutral that still separates from the background
+    border: byLightness.find(entry => getContrastRatio(entry.color.hex, background.hex) >= 1.5)?.color,
+    danger: closestHue(25),
+    success: closestHue(145)
+  };
+};
+
+// Raises OKLCH lightness until the color reaches the ratio against a dark backdrop
+const reachContrast = (l: number, c: number, h: number, backdrop: string, minRatio: number): string => {
+  let lightness = l;
+  let hex = hexFromOklch(lightness, c, h);
+  while (getContrastRatio(hex, backdrop) < minRatio && lightness < 1) {
+    lightness = Math.min(1, lightness + 0.01);
+    hex = hexFromOklch(lightness, c, h);
+  }
+  return hex;
+};
+
+// Neutrals are rebuilt as dark tints of their own hue; accents keep their hue and get lighter until they
+// reach the same contrast targets as in light mode. Alpha and tags carry over.
+export const generateDarkRoles = (light: ThemeRoles): ThemeRoles => {
+  const dark: ThemeRoles = {};
+  const derive = (role: ThemeRole, hex: string) => {
+    const source = light[role]!;
+    dark[role] = {
+      ...createColor(`${source.name} Dark`, hex),
+      ...(source.alpha !== undefined && { alpha: source.alpha }),
+      ...(source.tags && { tags: source.tags })
+    };
+  };
+
+  const neutral = (role: ThemeRole, lightness: number) => {
+    const source = light[role];
+    if (!source) return;
+    const { c, h } = oklchOf(source);
+    derive(role, hexFromOklch(lightness, Math.min(c, 0.03), h));
+  };
+
+  neutral('background', 0.18);
+  neutral('surface', 0.23);
+  neutral('border', 0.38);
+
+  const background = dark.background?.hex ?? '#111111';
+  const minRatioFor = (role: ThemeRole) =>
+    Math.max(...ROLE_CONTRAST_PAIRS.filter(pair => pair.foreground === role).map(pair => pair.minRatio), 3);
+
+  // Non-text borders rarely hit 3:1 in dark themes; only lift them as far as the light theme did
+  if (dark.border && light.border && light.background) {
+    const target = Math.min(3, getContrastRatio(light.border.hex, light.background.hex));
+    const { l, c, h } = oklchOf(dark.border);
+    derive('border', reachContrast(l, c, h, background, target));
+  }
+
+  (['primary', 'danger', 'success'] as ThemeRole[]).forEach(role => {
+    const source = light[role];
+    if (!source) return;
+    const { l, c, h } = oklchOf(source);
+    derive(role, reachContrast(Math.max(l, 0.65), c * 0.9, h, background, minRatioFor(role)));
+  });
+
+  // Whichever of a near-white or a deep tint of the primary reads better on the new primary
+  if (light['on-primary'] && dark.primary) {
+    const { h } = oklchOf(dark.primary);
+    const candidates = [hexFromOklch(0.98, 0.01, h), hexFromOklch(0.2, 0.04, h)];
+    const best = candidates.sort((a, b) => getContrastRatio(b, dark.primary!.hex) - getContrastRatio(a, dark.primary!.hex))[0];
+    derive('on-primary', best);
+  }
+
+  return dark;
+};
+
+export const checkRoleContrast = (roles: ThemeRoles): RoleContrastCheck[] => {
+  return ROLE_CONTRAST_PAIRS
+    .filter(pair => roles[pair.foreground] && roles[pair.background])
+    .map(pair => {
+      const ratio = getContrastRatio(getColorHex8(roles[pair.foreground]!), getColorHex8(roles[pair.background]!));
+      return { ...pair, ratio, pass: ratio >= pair.minRatio };
+    });
+};
+
+const roleDeclarations = (roles: ThemeRoles, colorScheme: ThemeMode): string => {
+  const lines = themeRoles
+    .filter(({ key }) => roles[key])
+    .map(({ key }) => `  --color-${key}: ${getColorHex8(roles[key]!).toLowerCase()};`);
+  return [`  color-scheme: ${colorScheme};`, ...lines].join('\n');
+};
+
+// Light values on :root, dark values switched on with <html data-theme="dark">
+// The name goes into a comment, so a `*/` in it is broken up
+export const exportThemeCss = (theme: ThemeMapping): string => {
+  return [
+    `/* ${theme.name.replace(/\*\//g, '* /')} */`,
+    `:root {\n${roleDeclarations(theme.light, 'light')}\n}`,
+    '',
+    `[data-theme="dark"] {\n${roleDeclarations(theme.dark, 'dark')}\n}`,
+    ''
+  ].join('\n');
+};
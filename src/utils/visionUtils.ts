@@ -0,0 +1,72 @@
+import { Color, VisionMode } from '../types/color';
+import { hexToRgb, rgbToHex, srgbToLinear, linearToSrgb, getDeltaE } from './colorUtils';
+
+type Matrix = [number, number, number][];
+
+// Machado, Oliveira & Fernandes (2009), severity 1.0, applied in linear RGB
+const SIMULATION_MATRICES: Record<'protanopia' | 'deuteranopia' | 'tritanopia', Matrix> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998]
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.011820, 0.042940, 0.968881]
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.303900]
+  ]
+};
+
+export const visionModes: { key: VisionMode; label: string }[] = [
+  { key: 'normal', label: 'Normal vision' },
+  { key: 'protanopia', label: 'Protanopia' },
+  { key: 'deuteranopia', label: 'Deuteranopia' },
+  { key: 'tritanopia', label: 'Tritanopia' },
+  { key: 'achromatopsia', label: 'Achromatopsia' }
+];
+
+export const simulateColorVision = (hex: string, mode: VisionMode): string => {
+  if (mode === 'normal') return hex;
+
+  const rgb = hexToRgb(hex);
+  const linear = [srgbToLinear(rgb.r), srgbToLinear(rgb.g), srgbToLinear(rgb.b)];
+
+  if (mode === 'achromatopsia') {
+    const y = 0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2];
+    const grey = linearToSrgb(y);
+    return rgbToHex(grey, grey, grey);
+  }
+
+  const [r, g, b] = SIMULATION_MATRICES[mode].map(row =>
+    linearToSrgb(row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2])
+  );
+  return rgbToHex(r, g, b);
+};
+
+// Pairs that are distinct in normal vision but fall under the Delta E threshold once simulated
+export const findConfusableColors = (
+  colors: Color[],
+  mode: VisionMode,
+  threshold = 15
+): { first: Color; second: Color; deltaE: number }[] => {
+  if (mode === 'normal') return [];
+
+  const simulated = colors.map(color => simulateColorVision(color.hex, mode));
+  const pairs: { first: Color; second: Color; deltaE: number }[] = [];
+
+  for (let i = 0; i < colors.length; i++) {
+    for (let j = i + 1; j < colors.length; j++) {
+      const deltaE = getDeltaE(simulated[i], simulated[j]);
+      if (deltaE < threshold && getDeltaE(colors[i].hex, colors[j].hex) >= threshold) {
+        pairs.push({ first: colors[i], second: colors[j], deltaE });
+      }
+    }
+  }
+
+  return pairs;
+};